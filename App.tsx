@@ -1,21 +1,66 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { detectSceneElements, generateSingleRender } from './services/geminiService'; // Changed import
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { generateSingleRender, getRenderProvider } from './services/renderService';
 import LoadingSpinner from './components/LoadingSpinner';
-import { LightingType, LightingConfig } from './types'; // Added LightingConfig
+import BatchRenderPanel from './components/BatchRenderPanel';
+import LightingSweepPanel from './components/LightingSweepPanel';
+import HistoryPanel from './components/HistoryPanel';
+import PromptLabPanel from './components/PromptLabPanel';
+import MaskEditor from './components/MaskEditor';
+import RenderVersionChain from './components/RenderVersionChain';
+import SceneAnalysisEditor from './components/SceneAnalysisEditor';
+import MaterialLibraryPanel from './components/MaterialLibraryPanel';
+import ComparisonViewer from './components/ComparisonViewer';
+import PresentationExportPanel from './components/PresentationExportPanel';
+import DownloadDialog from './components/DownloadDialog';
+import PostProcessPanel from './components/PostProcessPanel';
+import LightingPresetsPanel from './components/LightingPresetsPanel';
+import InputPreprocessDialog from './components/InputPreprocessDialog';
+import ImageUpload from './components/ImageUpload';
+import { saveRenderToHistory } from './services/historyStore';
+import { validateRender } from './services/renderValidation';
+import { composeMaskedEdit } from './services/imageComposite';
+import { describeLightingForFilename } from './services/imageExport';
+import { validateLightingConfig } from './services/lightingConfig';
+import { dataUrlToBlob } from './services/imageUtils';
+import { autoPreprocessInputImage, loadInputPreprocessSettings } from './services/inputPreprocessing';
+import { createRenderVersion, getRenderLighting, restoreRenderVersions } from './services/renderVersions';
+import { serializeSceneAnalysis } from './services/sceneAnalysis';
+import { listLibraryItems, subscribeToMaterialLibrary, getMaterialAssignments } from './services/materialLibrary';
+import { classifyError, isRetryableErrorKind } from './services/renderErrors';
+import { exportProjectArchive, importProjectFile } from './services/projectFile';
+import { getActivePromptTemplates, describeTemplateVersions } from './services/promptTemplates';
+import { ASPECT_RATIO_OPTIONS, IMAGE_SIZE_OPTIONS, DEFAULT_OUTPUT_FORMAT, resolveOutputFormat } from './services/outputFormat';
+import { LightingType, LightingConfig, RenderHistoryEntry, RenderResult, RenderVersion, OutputFormat, RenderErrorKind, SceneAnalysis, MaterialLibraryItem, FollowUpTemplateId, PromptTemplateSet } from './types'; // Added LightingConfig
+
+// Render backend selected at build time (RENDER_PROVIDER=gemini|mock)
+const renderProvider = getRenderProvider();
 
 const App: React.FC = () => {
+  // Single scene flow vs. batch of camera views
+  const [isBatchMode, setIsBatchMode] = useState<boolean>(false);
+
   // States for the single uploaded SketchUp scene
   const [uploadedSketchupScene, setUploadedSketchupScene] = useState<File | null>(null);
+  // Object URL of uploadedSketchupScene, for the comparison viewer
   const [sketchupScenePreview, setSketchupScenePreview] = useState<string | null>(null);
+  // Upload before preprocessing, so crop and size can be adjusted again later
+  const [sketchupSceneSource, setSketchupSceneSource] = useState<File | null>(null);
+  // Upload waiting in the preprocessing dialog
+  const [pendingSketchupScene, setPendingSketchupScene] = useState<File | null>(null);
 
   // Scene-specific description (replaces globalSceneDescription)
   const [sceneDescription, setSceneDescription] = useState<string>('');
+  // Structured detection result; while set, sceneDescription is its serialized form
+  const [sceneAnalysis, setSceneAnalysis] = useState<SceneAnalysis | null>(null);
+  // Persistent material library (IndexedDB); items are assigned to objects of sceneAnalysis
+  const [libraryItems, setLibraryItems] = useState<MaterialLibraryItem[]>([]);
   const [isDetectingScene, setIsDetectingScene] = useState<boolean>(false); // Renamed
 
   // Scene-specific reference images (replaces globalReferenceImages)
   const [referenceImages, setReferenceImages] = useState<File[]>([]);
-  const [referenceImagePreviews, setReferenceImagePreviews] = useState<{file: File, url: string}[]>([]);
   const MAX_REFERENCE_IMAGES = 5; // Define maximum limit for reference images (increased from 3 to 5)
+  const [isPreparingReferences, setIsPreparingReferences] = useState<boolean>(false);
+  const [referenceUploadError, setReferenceUploadError] = useState<string | null>(null);
 
   // Lighting configuration
   const [lightingType, setLightingType] = useState<LightingType>(LightingType.Day);
@@ -25,9 +70,41 @@ const App: React.FC = () => {
   const [contrastEnhancement, setContrastEnhancement] = useState<LightingConfig['contrastEnhancement']>('natural');
 
   const [advancedLightingInstructions, setAdvancedLightingInstructions] = useState<string>('');
+
+  // Output aspect ratio and target size, saved together with the lighting settings
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+
+  const lightingConfig = useMemo<LightingConfig>(() => ({
+    lightingType,
+    advancedLightingInstructions,
+    colorTemperature,
+    exposureCompensation,
+    contrastEnhancement,
+    outputFormat,
+  }), [lightingType, advancedLightingInstructions, colorTemperature, exposureCompensation, contrastEnhancement, outputFormat]);
+
+  useEffect(() => {
+    const loadLibrary = () => listLibraryItems()
+      .then(setLibraryItems)
+      .catch(err => console.error('Error loading material library:', err));
+    loadLibrary();
+    return subscribeToMaterialLibrary(loadLibrary);
+  }, []);
+
+  const materialAssignments = useMemo(() => getMaterialAssignments(sceneAnalysis, libraryItems), [sceneAnalysis, libraryItems]);
   
   // Single render result (replaces generatedSceneUrls)
-  const [generatedRender, setGeneratedRender] = useState<{ url: string | null; error: string | null } | null>(null);
+  const [generatedRender, setGeneratedRender] = useState<RenderResult | null>(null);
+  // Refinement chain of the current render; generatedRender mirrors the active version
+  const [renderVersions, setRenderVersions] = useState<RenderVersion[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<string | null>(null);
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState<boolean>(false);
+  // Before/after viewer used to QA geometry fidelity against the SketchUp input
+  const [isComparisonOpen, setIsComparisonOpen] = useState<boolean>(true);
+  // Image offered by the download dialog: the render itself or its post-processed copy
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  // Region edit or follow-up refinement in progress
+  const [isRevisingRender, setIsRevisingRender] = useState<boolean>(false);
 
   // UI/Loading States
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -37,14 +114,52 @@ const App: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [hasApiKey, setHasApiKey] = useState<boolean>(false);
   const [showApiKeyPrompt, setShowApiKeyPrompt] = useState<boolean>(false); // Corrected state setter
+  // Class of the model call behind `error`, used to offer the matching action
+  const [failedCall, setFailedCall] = useState<{ kind: RenderErrorKind; step?: 'detect' | 'render' } | null>(null);
 
   // Refs to file inputs for triggering clicks and loading lighting config
-  const sketchupFileInputRef = useRef<HTMLInputElement>(null);
-  const referenceFileInputRef = useRef<HTMLInputElement>(null);
   const lightingConfigFileInputRef = useRef<HTMLInputElement>(null); // New ref for lighting config
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+
+  // In-flight detection and render. Aborted by the Cancel buttons and whenever another scene is loaded,
+  // so a late response can never land in the new session.
+  const detectAbortRef = useRef<AbortController | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const reviseAbortRef = useRef<AbortController | null>(null);
+  // Reference uploads being prepared; aborted whenever the scene's references are replaced
+  const referencesAbortRef = useRef<AbortController | null>(null);
+
+  const cancelInFlight = useCallback(() => {
+    detectAbortRef.current?.abort();
+    renderAbortRef.current?.abort();
+    reviseAbortRef.current?.abort();
+  }, []);
+
+  // Abort pending calls on unmount
+  useEffect(() => cancelInFlight, [cancelInFlight]);
+
+  // New scenes start with their own references; uploads still being prepared for the old one are dropped
+  const resetReferenceImages = useCallback((files: File[] = []) => {
+    referencesAbortRef.current?.abort();
+    referencesAbortRef.current = null;
+    setReferenceImages(files);
+    setReferenceUploadError(null);
+    setIsPreparingReferences(false);
+  }, []);
+
+  // Shows a fresh render (or none) and makes it v1 of a new version chain
+  const startRenderChain = useCallback((result: RenderResult | null) => {
+    const chain = result?.url ? [createRenderVersion([], result, null, null)] : [];
+    setGeneratedRender(result);
+    setRenderVersions(chain);
+    setActiveVersionId(chain[0]?.id ?? null);
+  }, []);
 
   const checkApiKey = useCallback(async () => {
-    if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
+    if (!renderProvider.requiresApiKey) {
+      setHasApiKey(true); // Offline provider, no key needed
+      setShowApiKeyPrompt(false);
+    } else if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
       const selected = await window.aistudio.hasSelectedApiKey();
       setHasApiKey(selected);
       setShowApiKeyPrompt(!selected); // Corrected state setter
@@ -58,6 +173,20 @@ const App: React.FC = () => {
     checkApiKey();
   }, [checkApiKey]);
 
+  useEffect(() => {
+    if (!error) setFailedCall(null);
+  }, [error]);
+
+  // `step` enables the retry button; region edits are retried from the mask editor instead
+  const showModelError = useCallback((kind: RenderErrorKind, message: string, step?: 'detect' | 'render') => {
+    setError(message);
+    setFailedCall({ kind, step });
+    if (kind === 'auth') {
+      setHasApiKey(false);
+      setShowApiKeyPrompt(true);
+    }
+  }, []);
+
   const handleSelectApiKey = useCallback(async () => {
     if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
       await window.aistudio.openSelectKey();
@@ -69,65 +198,79 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const handleSketchupFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files.length > 0) {
-      // Add explicit type assertion for `File` to ensure type consistency
-      const file = event.target.files[0] as File;
-      setUploadedSketchupScene(file);
-      setSketchupScenePreview(URL.createObjectURL(file));
-
-      // Reset scene-specific states when a new image is uploaded
-      setSceneDescription('');
-      setIsDetectingScene(false);
-      setReferenceImages([]);
-      setReferenceImagePreviews([]);
-      // Keep lighting settings as they might be imported or user-defined for the next scene
-      setGeneratedRender(null);
-      setError(null);
-    } else {
-      // Clear states if no file is selected (e.g., user cancels file dialog)
-      setUploadedSketchupScene(null);
+  useEffect(() => {
+    if (!uploadedSketchupScene) {
       setSketchupScenePreview(null);
+      return;
     }
-  }, []);
+    const url = URL.createObjectURL(uploadedSketchupScene);
+    setSketchupScenePreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [uploadedSketchupScene]);
 
-  const handleSceneDescriptionChange = useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setSceneDescription(event.target.value);
+  // Uploads go through the preprocessing dialog before they replace the scene
+  const handleSketchupSceneAdded = useCallback((added: File[]) => {
+    setPendingSketchupScene(added[0]);
   }, []);
 
-  const handleReferenceImagesChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files) {
-      const currentRefImagesCount = referenceImages.length;
-      const filesToProcess = Array.from(event.target.files) as File[];
-      
-      const newImages = filesToProcess.slice(0, MAX_REFERENCE_IMAGES - currentRefImagesCount);
-      
-      if (newImages.length > 0) {
-        setReferenceImages(prev => [...prev, ...newImages]);
-        const newPreviews = newImages.map(file => ({
-          file,
-          url: URL.createObjectURL(file)
-        }));
-        setReferenceImagePreviews(prev => [...prev, ...newPreviews]);
-      }
+  // The ✕ on the preview only clears the image; description and settings stay
+  const handleSketchupSceneChange = useCallback((files: File[]) => {
+    if (files.length > 0) return;
+    cancelInFlight();
+    setUploadedSketchupScene(null);
+    setSketchupSceneSource(null);
+  }, [cancelInFlight]);
 
-      if (currentRefImagesCount + filesToProcess.length > MAX_REFERENCE_IMAGES) {
-        setError(`Solo se permiten un máximo de ${MAX_REFERENCE_IMAGES} imágenes de referencia. Se han añadido las primeras ${newImages.length}.`);
-      } else {
-        setError(null);
-      }
-      
-      // Clear the file input value to allow selecting the same file(s) again if needed
-      if (referenceFileInputRef.current) {
-        referenceFileInputRef.current.value = '';
+  const handleSketchupScenePrepared = useCallback((processed: File) => {
+    // Re-adjusting the current upload keeps its reference images
+    const isNewUpload = pendingSketchupScene !== sketchupSceneSource;
+    cancelInFlight();
+    setUploadedSketchupScene(processed);
+    setSketchupSceneSource(pendingSketchupScene);
+    setPendingSketchupScene(null);
+
+    // Reset scene-specific states when a new image is uploaded
+    setSceneDescription('');
+    setSceneAnalysis(null);
+    setIsDetectingScene(false);
+    if (isNewUpload) resetReferenceImages();
+    // Keep lighting settings as they might be imported or user-defined for the next scene
+    startRenderChain(null);
+    setError(null);
+  }, [pendingSketchupScene, sketchupSceneSource, cancelInFlight, startRenderChain, resetReferenceImages]);
+
+  // References are downscaled and converted like batch views; no border trimming, since product photos often sit on plain backgrounds
+  const handleReferenceImagesAdded = useCallback(async (added: File[]) => {
+    const controller = new AbortController();
+    referencesAbortRef.current = controller;
+    setIsPreparingReferences(true);
+    setReferenceUploadError(null);
+    const settings = { ...loadInputPreprocessSettings(), autoTrim: false };
+    const failed: string[] = [];
+    // One at a time: each decode holds the full-size image in memory
+    for (const source of added) {
+      try {
+        const file = await autoPreprocessInputImage(source, settings);
+        if (controller.signal.aborted) return;
+        setReferenceImages(prev => [...prev, file].slice(0, MAX_REFERENCE_IMAGES));
+      } catch (err: any) {
+        if (controller.signal.aborted) return;
+        console.error(`Error preparing reference ${source.name}:`, err);
+        failed.push(`${source.name}: ${err.message || 'Error desconocido'}`);
       }
     }
-  }, [referenceImages, MAX_REFERENCE_IMAGES]);
+    referencesAbortRef.current = null;
+    if (failed.length > 0) setReferenceUploadError(`No se pudieron cargar ${failed.length} referencia(s). ${failed.join(' ')}`);
+    setIsPreparingReferences(false);
+  }, []);
+
+  const handleSceneDescriptionChange = useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setSceneDescription(event.target.value);
+  }, []);
 
-  const handleRemoveReferenceImage = useCallback((fileToRemove: File) => {
-    setReferenceImages(prev => prev.filter(file => file !== fileToRemove));
-    setReferenceImagePreviews(prev => prev.filter(preview => preview.file !== fileToRemove));
-    setError(null); // Clear any previous limit error if an image is removed
+  const handleSceneAnalysisChange = useCallback((analysis: SceneAnalysis) => {
+    setSceneAnalysis(analysis);
+    setSceneDescription(serializeSceneAnalysis(analysis));
   }, []);
 
   const handleLightingTypeChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
@@ -147,6 +290,16 @@ const App: React.FC = () => {
     setContrastEnhancement(event.target.value as LightingConfig['contrastEnhancement']);
   }, []);
 
+  const handleAspectRatioChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const aspectRatio = event.target.value as OutputFormat['aspectRatio'];
+    setOutputFormat(prev => ({ ...prev, aspectRatio }));
+  }, []);
+
+  const handleImageSizeChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const imageSize = event.target.value as OutputFormat['imageSize'];
+    setOutputFormat(prev => ({ ...prev, imageSize }));
+  }, []);
+
   const handleAdvancedLightingChange = useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => {
     setAdvancedLightingInstructions(event.target.value);
   }, []);
@@ -162,26 +315,37 @@ const App: React.FC = () => {
       return;
     }
 
+    detectAbortRef.current?.abort();
+    const controller = new AbortController();
+    detectAbortRef.current = controller;
+
     setIsDetectingScene(true);
     setError(null);
     setSceneDescription(''); // Clear previous description
+    setSceneAnalysis(null);
 
     try {
-      const detected = await detectSceneElements([uploadedSketchupScene]); // Pass single image in array
-      setSceneDescription(detected);
+      const analysis = await renderProvider.analyze(uploadedSketchupScene, getActivePromptTemplates(), controller.signal);
+      if (controller.signal.aborted) return;
+      setSceneAnalysis(analysis);
+      setSceneDescription(serializeSceneAnalysis(analysis));
     } catch (err: any) {
+      if (controller.signal.aborted) return; // Cancelled by the user or replaced by a newer session
       console.error('Error detecting scene elements:', err);
-      if (err.message && err.message.includes("Requested entity was not found.")) {
-        setError(`${err.message} Un enlace a la documentación de facturación se puede encontrar en ai.google.dev/gemini-api/docs/billing.`);
-        setHasApiKey(false);
-        setShowApiKeyPrompt(true); // Corrected state setter
-      } else {
-        setError(`Fallo al detectar elementos de la escena: ${err.message || 'Error desconocido'}.`);
-      }
+      const renderError = classifyError(err);
+      showModelError(renderError.kind, `Fallo al detectar elementos de la escena: ${renderError.message}`, 'detect');
     } finally {
-      setIsDetectingScene(false);
+      // Only the latest detection owns the loading state
+      if (detectAbortRef.current === controller) {
+        detectAbortRef.current = null;
+        setIsDetectingScene(false);
+      }
     }
-  }, [uploadedSketchupScene, hasApiKey]);
+  }, [uploadedSketchupScene, hasApiKey, showModelError]);
+
+  const handleCancelDetection = useCallback(() => {
+    detectAbortRef.current?.abort();
+  }, []);
 
   const handleGenerateRender = useCallback(async () => { // Renamed handler
     if (!uploadedSketchupScene) {
@@ -198,68 +362,161 @@ const App: React.FC = () => {
       return;
     }
 
+    renderAbortRef.current?.abort();
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+
     setIsLoading(true);
-    setGeneratedRender(null); // Reset previous render
+    startRenderChain(null); // Reset previous render
     setError(null);
     setCurrentGenerationProgress('Iniciando generación...');
 
     try {
       const result = await generateSingleRender( // Call single render function
+        renderProvider,
         uploadedSketchupScene,
         sceneDescription,
         referenceImages,
-        lightingType,
-        advancedLightingInstructions,
-        colorTemperature, // Pass new lighting parameters
-        exposureCompensation,
-        contrastEnhancement,
+        lightingConfig,
         (message) => { // Simplified callback
-          setCurrentGenerationProgress(message);
-        }
+          if (!controller.signal.aborted) setCurrentGenerationProgress(message);
+        },
+        { validate: validateRender, materials: materialAssignments, signal: controller.signal }
       );
-      setGeneratedRender(result);
+      if (controller.signal.aborted) return; // Cancelled by the user or replaced by a newer session
+      startRenderChain(result);
+      if (result.url) {
+        // Persist in the local history without blocking the UI
+        saveRenderToHistory(renderProvider, uploadedSketchupScene, sceneDescription, referenceImages, lightingConfig, result, sceneAnalysis)
+          .catch((historyError: any) => {
+            console.error('Error saving render to history:', historyError);
+            setError(`El render se generó, pero no se pudo guardar en el historial: ${historyError.message || 'Error desconocido'}`);
+          });
+      }
       if (result.error) {
         setCurrentGenerationProgress(`Generación fallida: ${result.error}`);
+        showModelError(result.errorKind ?? 'unknown', `Fallo al generar el render: ${result.error}`, 'render');
       } else {
         setCurrentGenerationProgress('Generación completada.');
       }
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error('Error generating event render:', err);
-      const generalErrorMessage = err.message && err.message.includes("Requested entity was not found.")
-        ? `${err.message} Un enlace a la documentación de facturación se puede encontrar en ai.google.dev/gemini-api/docs/billing.`
-        : `Fallo general al generar el render: ${err.message || 'Error desconocido'}. Por favor, inténtalo de nuevo.`;
-      
-      setError(generalErrorMessage);
-      if (err.message && err.message.includes("Requested entity was not found.")) {
-        setHasApiKey(false);
-        setShowApiKeyPrompt(true); // Corrected state setter
-      }
+      const renderError = classifyError(err);
+      showModelError(renderError.kind, `Fallo general al generar el render: ${renderError.message}`, 'render');
       setCurrentGenerationProgress('');
     } finally {
-      setIsLoading(false);
+      if (renderAbortRef.current === controller) {
+        renderAbortRef.current = null;
+        setIsLoading(false);
+      }
     }
-  }, [uploadedSketchupScene, sceneDescription, referenceImages, lightingType, advancedLightingInstructions, colorTemperature, exposureCompensation, contrastEnhancement, hasApiKey]);
+  }, [uploadedSketchupScene, sceneDescription, sceneAnalysis, referenceImages, lightingConfig, materialAssignments, hasApiKey, showModelError, startRenderChain]);
 
-  const handleDownloadImage = useCallback(() => { // Changed from download all
-    if (generatedRender?.url) {
-      const link = document.createElement('a');
-      link.href = generatedRender.url;
-      link.download = `event_render.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  const handleCancelRender = useCallback(() => {
+    renderAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!generatedRender?.url) setIsMaskEditorOpen(false);
+  }, [generatedRender]);
+
+  /**
+   * Region edits and follow-up refinements both derive a new version from the active one.
+   * Returns whether a version was added.
+   */
+  const runRevision = useCallback(async (
+    instruction: string,
+    templateId: FollowUpTemplateId,
+    revise: (baseUrl: string, format: OutputFormat, templates: PromptTemplateSet, signal: AbortSignal) => Promise<Pick<RenderResult, 'url' | 'prompt' | 'validation'>>,
+    errorPrefix: string
+  ): Promise<boolean> => {
+    const parent = renderVersions.find(version => version.id === activeVersionId);
+    if (!parent?.result.url || !uploadedSketchupScene) return false;
+
+    reviseAbortRef.current?.abort();
+    const controller = new AbortController();
+    reviseAbortRef.current = controller;
+
+    setIsRevisingRender(true);
+    setError(null);
+
+    try {
+      const templates = getActivePromptTemplates();
+      // The parent's format, not the one now selected: the new version replaces it in the same frame
+      const parentFormat = resolveOutputFormat(getRenderLighting(parent.result, lightingConfig));
+      const revision = await revise(parent.result.url, parentFormat, templates, controller.signal);
+      if (controller.signal.aborted) return false;
+      // The parent's pipeline versions plus the template that made this change
+      const templateVersions = parent.result.templateVersions && { ...parent.result.templateVersions, [templateId]: templates[templateId].version };
+      const result: RenderResult = { ...revision, error: null, templateVersions, lighting: parent.result.lighting, outputFormat: parentFormat };
+      const version = createRenderVersion(renderVersions, result, parent, instruction);
+      setRenderVersions(prev => [...prev, version]);
+      setActiveVersionId(version.id);
+      setGeneratedRender(result);
+      saveRenderToHistory(renderProvider, uploadedSketchupScene, sceneDescription, referenceImages, getRenderLighting(result, lightingConfig), result, sceneAnalysis)
+        .catch((historyError: any) => console.error('Error saving revised render to history:', historyError));
+      return true;
+    } catch (err: any) {
+      if (controller.signal.aborted) return false;
+      console.error('Error revising render:', err);
+      const renderError = classifyError(err);
+      showModelError(renderError.kind, `${errorPrefix}: ${renderError.message}`);
+      return false;
+    } finally {
+      if (reviseAbortRef.current === controller) {
+        reviseAbortRef.current = null;
+        setIsRevisingRender(false);
+      }
     }
+  }, [renderVersions, activeVersionId, uploadedSketchupScene, sceneDescription, sceneAnalysis, referenceImages, lightingConfig, showModelError]);
+
+  // Inpainting: the provider repaints the masked area, then only that area is pasted onto the active version
+  const handleApplyRegionEdit = useCallback(async (maskUrl: string, instruction: string) => {
+    const applied = await runRevision(`Región: ${instruction}`, 'edit', async (baseUrl, format, templates, signal) => {
+      const editedUrl = await renderProvider.edit(baseUrl, dataUrlToBlob(maskUrl), instruction, format, templates, signal);
+      return { url: await composeMaskedEdit(baseUrl, editedUrl, maskUrl), prompt: `EDIT: ${instruction}` };
+    }, 'Fallo al editar la región');
+    if (applied) setIsMaskEditorOpen(false);
+  }, [runRevision]);
+
+  // "Same thing, but ...": the active version is fed back with the follow-up instruction
+  const handleRefineRender = useCallback(async (instruction: string) => {
+    const sketchupImage = uploadedSketchupScene;
+    if (!sketchupImage) return;
+    await runRevision(instruction, 'revise', async (baseUrl, format, templates, signal) => {
+      const url = await renderProvider.revise(baseUrl, instruction, format, templates, signal);
+      // Successive refinements can drift from the SketchUp geometry, so each one is checked again
+      const validation = await validateRender(url, sketchupImage, format).catch((validationError) => {
+        console.warn('Render validation failed:', validationError);
+        return undefined;
+      });
+      return { url, prompt: `REFINE: ${instruction}`, validation };
+    }, 'Fallo al refinar el render');
+  }, [runRevision, uploadedSketchupScene]);
+
+  const handleCancelRevision = useCallback(() => {
+    reviseAbortRef.current?.abort();
+  }, []);
+
+  const handleSelectVersion = useCallback((id: string) => {
+    const version = renderVersions.find(v => v.id === id);
+    if (!version) return;
+    setActiveVersionId(id);
+    setGeneratedRender(version.result);
+  }, [renderVersions]);
+
+  // Format, filename and embedded metadata are chosen in the download dialog
+  const handleDownloadImage = useCallback(() => {
+    if (generatedRender?.url) setDownloadUrl(generatedRender.url);
   }, [generatedRender]);
 
+  const activeVersion = renderVersions.find(version => version.id === activeVersionId) ?? null;
+  // Downloads describe the displayed render, not whatever the controls show now
+  const renderedLighting = generatedRender ? getRenderLighting(generatedRender, lightingConfig) : lightingConfig;
+
   const handleSaveLightingConfig = useCallback(() => {
-    const config: LightingConfig = {
-      lightingType,
-      advancedLightingInstructions,
-      colorTemperature, // Include new parameters
-      exposureCompensation,
-      contrastEnhancement,
-    };
-    const json = JSON.stringify(config, null, 2);
+    const json = JSON.stringify(lightingConfig, null, 2);
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -269,7 +526,16 @@ const App: React.FC = () => {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  }, [lightingType, advancedLightingInstructions, colorTemperature, exposureCompensation, contrastEnhancement]);
+  }, [lightingConfig]);
+
+  const applyLightingConfig = useCallback((config: LightingConfig) => {
+    setLightingType(config.lightingType);
+    setAdvancedLightingInstructions(config.advancedLightingInstructions);
+    setColorTemperature(config.colorTemperature);
+    setExposureCompensation(config.exposureCompensation);
+    setContrastEnhancement(config.contrastEnhancement);
+    setOutputFormat(config.outputFormat ?? DEFAULT_OUTPUT_FORMAT);
+  }, []);
 
   const handleLoadLightingConfig = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
@@ -278,19 +544,9 @@ const App: React.FC = () => {
       reader.onload = (e) => {
         try {
           const content = e.target?.result as string;
-          const config: LightingConfig = JSON.parse(content);
-          // Check for all required lighting properties
-          if (config.lightingType && config.advancedLightingInstructions !== undefined &&
-              config.colorTemperature && config.exposureCompensation && config.contrastEnhancement) {
-            setLightingType(config.lightingType);
-            setAdvancedLightingInstructions(config.advancedLightingInstructions);
-            setColorTemperature(config.colorTemperature); // Set new parameters
-            setExposureCompensation(config.exposureCompensation);
-            setContrastEnhancement(config.contrastEnhancement);
-            setError(null);
-          } else {
-            throw new Error('Formato de configuración de iluminación no válido o incompleto.');
-          }
+          // Every enum field must be a known value, not merely present
+          applyLightingConfig(validateLightingConfig(JSON.parse(content)));
+          setError(null);
         } catch (parseError: any) {
           setError(`Error al cargar la configuración de iluminación: ${parseError.message || 'Archivo JSON corrupto.'}`);
         }
@@ -300,25 +556,134 @@ const App: React.FC = () => {
       };
       reader.readAsText(file);
     }
-  }, []);
+  }, [applyLightingConfig]);
 
   const handleStartNewScene = useCallback(() => {
+    cancelInFlight();
     // Clear all scene-specific states
     setUploadedSketchupScene(null);
-    setSketchupScenePreview(null);
-    if (sketchupFileInputRef.current) sketchupFileInputRef.current.value = ''; // Clear file input
+    setSketchupSceneSource(null);
     
     setSceneDescription('');
+    setSceneAnalysis(null);
     setIsDetectingScene(false);
-    setReferenceImages([]);
-    setReferenceImagePreviews([]);
-    if (referenceFileInputRef.current) referenceFileInputRef.current.value = ''; // Clear file input
+    resetReferenceImages();
     
-    setGeneratedRender(null);
+    startRenderChain(null);
     setError(null);
     setCurrentGenerationProgress('');
     // Keep lightingType and advancedLightingInstructions, colorTemperature, exposureCompensation, contrastEnhancement as they are, allowing reuse
-  }, []);
+  }, [cancelInFlight, startRenderChain, resetReferenceImages]);
+
+  const handleExportProject = useCallback(async () => {
+    try {
+      const archive = await exportProjectArchive({
+        sceneImage: uploadedSketchupScene,
+        sceneDescription,
+        sceneAnalysis,
+        lighting: lightingConfig,
+        referenceImages,
+        // The whole version chain, so branches and their instructions survive the round trip
+        renders: renderVersions.flatMap(version => version.result.url
+          ? [{
+              id: version.id,
+              parentId: version.parentId,
+              instruction: version.instruction,
+              url: version.result.url,
+              prompt: version.result.prompt ?? '',
+              modelName: renderProvider.modelName,
+              createdAt: new Date(version.createdAt).toISOString(),
+              templateVersions: version.result.templateVersions,
+              lighting: getRenderLighting(version.result, lightingConfig),
+            }]
+          : []),
+        activeRenderId: activeVersionId,
+      });
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'event_render_project.zip';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (exportError: any) {
+      console.error('Error exporting project:', exportError);
+      setError(`Error al exportar el proyecto: ${exportError.message || 'Error desconocido'}`);
+    }
+  }, [uploadedSketchupScene, sceneDescription, sceneAnalysis, lightingConfig, referenceImages, renderVersions, activeVersionId]);
+
+  // Accepts a project .zip, a bare project.json or a legacy lighting_config.json
+  const handleImportProject = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (projectFileInputRef.current) projectFileInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const session = await importProjectFile(file);
+      cancelInFlight();
+      setIsBatchMode(false);
+      applyLightingConfig(session.lighting);
+      if (session.sceneImage) {
+        setUploadedSketchupScene(session.sceneImage);
+        setSketchupSceneSource(session.sceneImage);
+        setSceneDescription(session.sceneDescription);
+        setSceneAnalysis(session.sceneAnalysis);
+        resetReferenceImages(session.referenceImages);
+        const { versions, activeVersionId: restoredActiveId } = restoreRenderVersions(
+          session.renders.map(render => ({
+            id: render.id,
+            parentId: render.parentId,
+            instruction: render.instruction,
+            createdAt: Date.parse(render.createdAt) || Date.now(),
+            result: {
+              url: render.url,
+              error: null,
+              prompt: render.prompt,
+              templateVersions: render.templateVersions,
+              lighting: render.lighting,
+              outputFormat: render.lighting?.outputFormat,
+            },
+          })),
+          session.activeRenderId
+        );
+        setRenderVersions(versions);
+        setActiveVersionId(restoredActiveId);
+        setGeneratedRender(versions.find(version => version.id === restoredActiveId)?.result ?? null);
+      }
+      setError(null);
+      setCurrentGenerationProgress('');
+    } catch (importError: any) {
+      console.error('Error importing project:', importError);
+      setError(`Error al importar el proyecto: ${importError.message || 'Archivo no válido.'}`);
+    }
+  }, [applyLightingConfig, cancelInFlight, resetReferenceImages]);
+
+  // Re-open a past render from the local history into the editor
+  const handleOpenHistoryEntry = useCallback((entry: RenderHistoryEntry) => {
+    const file = new File([entry.sketchupImage], entry.sceneName, { type: entry.sketchupImage.type });
+    cancelInFlight();
+    setIsBatchMode(false);
+    setUploadedSketchupScene(file);
+    setSketchupSceneSource(file);
+    setSceneDescription(entry.sceneDescription);
+    setSceneAnalysis(entry.sceneAnalysis ?? null);
+    setIsDetectingScene(false);
+    // Only thumbnails of the references are stored, so they are not restored as inputs
+    resetReferenceImages();
+    applyLightingConfig(entry.lighting);
+    startRenderChain({
+      url: entry.renderUrl,
+      error: null,
+      prompt: entry.refinedPrompt,
+      templateVersions: entry.templateVersions,
+      lighting: entry.lighting,
+      outputFormat: entry.lighting.outputFormat,
+    });
+    setError(null);
+    setCurrentGenerationProgress('');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [applyLightingConfig, cancelInFlight, startRenderChain, resetReferenceImages]);
 
 
   return (
@@ -350,150 +715,196 @@ const App: React.FC = () => {
       {error && (
         <div className="mt-8 p-4 bg-red-800 border border-red-600 rounded-lg text-red-100 text-center font-medium">
           <p>{error}</p>
+          {failedCall?.step && isRetryableErrorKind(failedCall.kind) && (
+            <button
+              onClick={failedCall.step === 'detect' ? handleDetectSceneElements : handleGenerateRender}
+              disabled={isLoading || isDetectingScene}
+              className="mt-3 py-1 px-5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {failedCall.step === 'detect' ? 'Reintentar detección' : 'Reintentar render'}
+            </button>
+          )}
+          {failedCall && (failedCall.kind === 'safety' || failedCall.kind === 'invalid_input') && (
+            <p className="mt-2 text-sm text-red-200">Modifica la descripción o las imágenes antes de volver a intentarlo.</p>
+          )}
         </div>
       )}
 
-      {/* STAGE 1: Upload Single SketchUp Scene */}
-      <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
-        <h2 className="text-2xl font-bold text-indigo-100">1. Carga tu Escena de SketchUp</h2>
-        <p className="text-indigo-200">
-          Sube una captura de pantalla de SketchUp para tu evento.
-        </p>
-        <label htmlFor="sketchup-single-upload" className="block text-lg font-medium text-indigo-200 mb-3 cursor-pointer hover:text-indigo-100 transition duration-200">
-          Seleccionar archivo de SketchUp
-        </label>
-        <input
-          id="sketchup-single-upload"
-          type="file"
-          accept="image/*"
-          onChange={handleSketchupFileChange}
-          ref={sketchupFileInputRef}
-          className="hidden"
-        />
+      <div className="flex justify-center gap-2 mb-8">
         <button
-          onClick={() => sketchupFileInputRef.current?.click()}
-          className="w-full py-3 px-6 rounded-full bg-indigo-600 text-white text-lg font-bold shadow-md hover:bg-indigo-700 transition duration-300 ease-in-out"
+          onClick={() => setIsBatchMode(false)}
+          className={`py-2 px-6 rounded-full font-bold transition duration-300 ease-in-out ${!isBatchMode ? 'bg-purple-600 text-white shadow-md' : 'bg-indigo-900/60 text-indigo-300 hover:bg-indigo-800'}`}
         >
-          {uploadedSketchupScene ? `Cambiar Archivo (${uploadedSketchupScene.name})` : 'Subir Escena de SketchUp'}
+          Escena Única
         </button>
+        <button
+          onClick={() => setIsBatchMode(true)}
+          className={`py-2 px-6 rounded-full font-bold transition duration-300 ease-in-out ${isBatchMode ? 'bg-purple-600 text-white shadow-md' : 'bg-indigo-900/60 text-indigo-300 hover:bg-indigo-800'}`}
+        >
+          Lote de Vistas
+        </button>
+      </div>
 
-        {sketchupScenePreview && (
-          <div className="mt-8 bg-indigo-900/40 p-5 rounded-lg border border-indigo-700 shadow-lg">
-            <h3 className="text-xl font-semibold text-indigo-100 mb-4">Escena Cargada: {uploadedSketchupScene?.name}</h3>
-            <img src={sketchupScenePreview} alt="SketchUp Scene Preview" className="w-full h-auto object-cover rounded-md mb-4 border border-indigo-600" />
-          </div>
-        )}
-        {!sketchupScenePreview && (
-          <div className="mt-4 p-6 border-2 border-dashed border-indigo-600 rounded-md text-indigo-400 text-center">
-            <p>No se ha seleccionado ninguna escena de SketchUp.</p>
-          </div>
-        )}
-
-        {uploadedSketchupScene && (
-          <div className="mt-8 pt-6 border-t border-indigo-700">
-            <h3 className="text-2xl font-bold text-indigo-100 mb-4">2. Detectar y Describir Elementos de la Escena</h3>
-            <p className="text-indigo-200 mb-4">
-              La IA analizará la escena cargada y generará una descripción técnica y factual, **respetando la cámara 1:1 y sin inventar nada**.
-            </p>
-            <button
-              onClick={handleDetectSceneElements}
-              disabled={isDetectingScene || !hasApiKey || !uploadedSketchupScene}
-              className="w-full py-3 px-6 rounded-full bg-blue-600 text-white font-bold shadow-md hover:bg-blue-700 transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed mb-4"
-            >
-              {isDetectingScene ? 'Detectando elementos...' : 'Detectar Elementos de la Escena'}
-            </button>
-            {isDetectingScene && <LoadingSpinner />}
-
-            {sceneDescription && (
-              <div className="mt-4">
-                <label htmlFor="scene-description" className="block text-lg font-semibold text-indigo-200 mb-2">
-                  Descripción de la Escena (Edita para MÁXIMA precisión 1:1, técnica y sin invenciones)
-                </label>
-                <textarea
-                  id="scene-description"
-                  value={sceneDescription}
-                  onChange={handleSceneDescriptionChange}
-                  rows={10}
-                  className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200 resize-y"
-                  placeholder="EJEMPLO (formato técnico estricto):
-1. CAMARA: Ángulo frontal, altura media.
-2. ZONAS VACÍAS (NO TOCAR):
-   * Primer plano derecho: Pasto vacío.
-   * Centro: Pasillo despejado.
-3. GEOMETRÍA EXISTENTE:
-   * Mesa redonda central -> Superficie de mármol blanco, base metálica dorada.
-   * Sillas alrededor de la mesa -> Sillas Chiavari doradas, cojines de terciopelo verde.
-   * Arreglo floral sobre mesa -> Rosas blancas y hortensias, florero de cristal transparente.
-   * Suelo: Pasto natural. ZONA RESTRINGIDA: NO COLOCAR MUEBLES AQUÍ.
-   * Fondo: Pared de ladrillo expuesto.
-   * Iluminación del boceto: Luz plana de día."
-                ></textarea>
-              </div>
-            )}
-          </div>
-        )}
-      </section>
-
-      {/* STAGE 2: Define Scene-Specific Style References */}
-      {sceneDescription.trim() !== '' && (
-        <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
-          <h2 className="text-2xl font-bold text-indigo-100">3. Añadir Referencias Visuales (Opcional)</h2>
-          <p className="text-indigo-200">
-            Sube hasta {MAX_REFERENCE_IMAGES} imágenes de elementos específicos (ej. cubiertos, estilo de flores, textura de tela) para que la IA los replique con la máxima fidelidad en esta escena.
-          </p>
-          <label htmlFor="reference-image-upload" className="block text-lg font-medium text-indigo-200 mb-3 cursor-pointer hover:text-indigo-100 transition duration-200">
-            Seleccionar imágenes de referencia
-          </label>
+      {!isBatchMode && (
+        <div className="flex flex-col sm:flex-row justify-center gap-4 mb-8">
           <input
-            id="reference-image-upload"
+            id="project-file-upload"
             type="file"
-            accept="image/*"
-            multiple
-            onChange={handleReferenceImagesChange}
-            ref={referenceFileInputRef}
+            accept=".zip,.json"
+            onChange={handleImportProject}
+            ref={projectFileInputRef}
             className="hidden"
-            disabled={referenceImages.length >= MAX_REFERENCE_IMAGES}
           />
           <button
-            onClick={() => referenceFileInputRef.current?.click()}
-            className="w-full py-3 px-6 rounded-full bg-blue-500 text-white text-lg font-bold shadow-md hover:bg-blue-600 transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
-            disabled={referenceImages.length >= MAX_REFERENCE_IMAGES}
+            onClick={() => projectFileInputRef.current?.click()}
+            className="py-2 px-5 bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-full transition duration-300 ease-in-out shadow-md"
           >
-            {referenceImages.length > 0 ? `Añadir/Cambiar Referencias (${referenceImages.length}/${MAX_REFERENCE_IMAGES} Archivos)` : `Subir Referencias Visuales (Máx. ${MAX_REFERENCE_IMAGES})`}
+            Abrir Proyecto (.zip)
           </button>
-          {referenceImages.length >= MAX_REFERENCE_IMAGES && (
-            <p className="text-yellow-300 text-sm mt-2 text-center">
-              Has alcanzado el límite de {MAX_REFERENCE_IMAGES} imágenes de referencia. Elimina alguna para añadir nuevas.
-            </p>
+          <button
+            onClick={handleExportProject}
+            disabled={!uploadedSketchupScene}
+            className="py-2 px-5 bg-green-600 hover:bg-green-700 text-white font-bold rounded-full transition duration-300 ease-in-out shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Guardar Proyecto (.zip)
+          </button>
+        </div>
+      )}
+
+      {/* BATCH MODE: many SketchUp views rendered with shared lighting */}
+      {/* Kept mounted while hidden, so switching modes does not drop the batch or its renders in flight */}
+      <div hidden={!isBatchMode}>
+        <BatchRenderPanel provider={renderProvider} lighting={lightingConfig} hasApiKey={hasApiKey} />
+      </div>
+
+      {/* STAGE 1: Upload Single SketchUp Scene */}
+      {!isBatchMode && (
+        <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
+          <h2 className="text-2xl font-bold text-indigo-100">1. Carga tu Escena de SketchUp</h2>
+          <p className="text-indigo-200">
+            Sube una captura de pantalla de SketchUp para tu evento.
+          </p>
+          <ImageUpload
+            id="sketchup-single-upload"
+            files={uploadedSketchupScene ? [uploadedSketchupScene] : []}
+            onAdd={handleSketchupSceneAdded}
+            onChange={handleSketchupSceneChange}
+            buttonLabel={uploadedSketchupScene ? `Cambiar Archivo (${uploadedSketchupScene.name})` : 'Subir Escena de SketchUp'}
+            emptyLabel="No se ha seleccionado ninguna escena de SketchUp."
+            pasteFromPage
+          />
+          {uploadedSketchupScene && sketchupSceneSource && (
+            <button
+              onClick={() => setPendingSketchupScene(sketchupSceneSource)}
+              className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700"
+            >
+              Ajustar recorte y tamaño
+            </button>
           )}
 
-          {referenceImagePreviews.length > 0 && (
-            <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-              {referenceImagePreviews.map((preview, index) => (
-                <div key={index} className="relative group border border-indigo-600 rounded-md overflow-hidden shadow-md">
-                  <img src={preview.url} alt={`Reference ${index}`} className="w-full h-24 object-cover" />
+          {uploadedSketchupScene && (
+            <div className="mt-8 pt-6 border-t border-indigo-700">
+              <h3 className="text-2xl font-bold text-indigo-100 mb-4">2. Detectar y Describir Elementos de la Escena</h3>
+              <p className="text-indigo-200 mb-4">
+                La IA analizará la escena cargada y generará una descripción técnica y factual, **respetando la cámara 1:1 y sin inventar nada**.
+              </p>
+              <button
+                onClick={handleDetectSceneElements}
+                disabled={isDetectingScene || !hasApiKey || !uploadedSketchupScene}
+                className="w-full py-3 px-6 rounded-full bg-blue-600 text-white font-bold shadow-md hover:bg-blue-700 transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed mb-4"
+              >
+                {isDetectingScene ? 'Detectando elementos...' : 'Detectar Elementos de la Escena'}
+              </button>
+              {isDetectingScene && (
+                <div className="text-center">
+                  <LoadingSpinner />
+                  <button
+                    onClick={handleCancelDetection}
+                    className="mt-2 py-1 px-5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700"
+                  >
+                    Cancelar
+                  </button>
+                </div>
+              )}
+
+              {sceneAnalysis && (
+                <div className="mt-4 space-y-4">
+                  <SceneAnalysisEditor
+                    analysis={sceneAnalysis}
+                    onChange={handleSceneAnalysisChange}
+                    libraryItems={libraryItems}
+                    disabled={isDetectingScene}
+                  />
+                  <details className="text-indigo-200">
+                    <summary className="cursor-pointer text-sm font-semibold">Descripción generada para el prompt</summary>
+                    <pre className="mt-2 p-3 rounded-lg bg-indigo-900/60 text-xs text-indigo-100 whitespace-pre-wrap">{sceneDescription}</pre>
+                  </details>
                   <button
-                    onClick={() => handleRemoveReferenceImage(preview.file)}
-                    className="absolute top-1 right-1 bg-red-600 text-white rounded-full p-1 text-xs opacity-0 group-hover:opacity-100 transition-opacity"
-                    aria-label="Remove reference image"
+                    onClick={() => setSceneAnalysis(null)}
+                    className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700"
                   >
-                    ✕
+                    Editar como texto libre
                   </button>
-                  <p className="text-xs text-indigo-300 p-1 truncate">{preview.file.name}</p>
                 </div>
-              ))}
-            </div>
-          )}
-          {referenceImagePreviews.length === 0 && (
-            <div className="mt-4 p-6 border-2 border-dashed border-indigo-600 rounded-md text-indigo-400 text-center">
-              <p>No se han seleccionado imágenes de referencia.</p>
+              )}
+
+              {!sceneAnalysis && sceneDescription && (
+                <div className="mt-4">
+                  <label htmlFor="scene-description" className="block text-lg font-semibold text-indigo-200 mb-2">
+                    Descripción de la Escena (Edita para MÁXIMA precisión 1:1, técnica y sin invenciones)
+                  </label>
+                  <textarea
+                    id="scene-description"
+                    value={sceneDescription}
+                    onChange={handleSceneDescriptionChange}
+                    rows={10}
+                    className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200 resize-y"
+                    placeholder="EJEMPLO (formato técnico estricto):
+  1. CAMARA: Ángulo frontal, altura media.
+  2. ZONAS VACÍAS (NO TOCAR):
+     * Primer plano derecho: Pasto vacío.
+     * Centro: Pasillo despejado.
+  3. GEOMETRÍA EXISTENTE:
+     * Mesa redonda central -> Superficie de mármol blanco, base metálica dorada.
+     * Sillas alrededor de la mesa -> Sillas Chiavari doradas, cojines de terciopelo verde.
+     * Arreglo floral sobre mesa -> Rosas blancas y hortensias, florero de cristal transparente.
+     * Suelo: Pasto natural. ZONA RESTRINGIDA: NO COLOCAR MUEBLES AQUÍ.
+     * Fondo: Pared de ladrillo expuesto.
+     * Iluminación del boceto: Luz plana de día."
+                  ></textarea>
+                </div>
+              )}
             </div>
           )}
         </section>
       )}
 
-      {/* STAGE 3: Define Scene Lighting */}
-      {sceneDescription.trim() !== '' && (
+      {/* STAGE 2: Define Scene-Specific Style References */}
+      {!isBatchMode && sceneDescription.trim() !== '' && (
+        <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
+          <h2 className="text-2xl font-bold text-indigo-100">3. Añadir Referencias Visuales (Opcional)</h2>
+          <p className="text-indigo-200">
+            Sube hasta {MAX_REFERENCE_IMAGES} imágenes de elementos específicos (ej. cubiertos, estilo de flores, textura de tela) para que la IA los replique con la máxima fidelidad en esta escena.
+          </p>
+          <ImageUpload
+            id="reference-image-upload"
+            files={referenceImages}
+            onChange={setReferenceImages}
+            onAdd={handleReferenceImagesAdded}
+            maxFiles={MAX_REFERENCE_IMAGES}
+            buttonLabel={isPreparingReferences
+              ? 'Preparando referencias...'
+              : referenceImages.length > 0 ? `Añadir Referencias (${referenceImages.length}/${MAX_REFERENCE_IMAGES} Archivos)` : `Subir Referencias Visuales (Máx. ${MAX_REFERENCE_IMAGES})`}
+            emptyLabel="No se han seleccionado imágenes de referencia."
+            disabled={isPreparingReferences}
+            buttonClassName="bg-blue-500 hover:bg-blue-600"
+          />
+          {referenceUploadError && <p className="text-sm text-red-300">{referenceUploadError}</p>}
+        </section>
+      )}
+
+      {/* STAGE 3: Define Scene Lighting (shared by every view in batch mode) */}
+      {(isBatchMode || sceneDescription.trim() !== '') && (
         <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
           <h2 className="text-2xl font-bold text-indigo-100">4. Definir Iluminación de la Escena</h2>
           <p className="text-indigo-200">
@@ -520,6 +931,12 @@ const App: React.FC = () => {
             </button>
           </div>
 
+          <LightingPresetsPanel
+            currentConfig={lightingConfig}
+            currentRenderUrl={generatedRender?.url ?? null}
+            onApply={(config) => applyLightingConfig({ ...config, outputFormat: config.outputFormat ?? outputFormat })}
+          />
+
           <div>
             <label htmlFor="lighting-type" className="block text-xl font-semibold text-indigo-200 mb-2">
               Tipo de Iluminación General
@@ -590,6 +1007,38 @@ const App: React.FC = () => {
             </select>
           </div>
 
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="output-aspect-ratio" className="block text-xl font-semibold text-indigo-200 mb-2">
+                Formato de Salida
+              </label>
+              <select
+                id="output-aspect-ratio"
+                value={outputFormat.aspectRatio}
+                onChange={handleAspectRatioChange}
+                className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200 mb-4"
+              >
+                {(Object.keys(ASPECT_RATIO_OPTIONS) as OutputFormat['aspectRatio'][]).map(ratio => (
+                  <option key={ratio} value={ratio}>{ASPECT_RATIO_OPTIONS[ratio].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="output-image-size" className="block text-xl font-semibold text-indigo-200 mb-2">
+                Resolución
+              </label>
+              <select
+                id="output-image-size"
+                value={outputFormat.imageSize}
+                onChange={handleImageSizeChange}
+                className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200 mb-4"
+              >
+                {(Object.keys(IMAGE_SIZE_OPTIONS) as OutputFormat['imageSize'][]).map(size => (
+                  <option key={size} value={size}>{IMAGE_SIZE_OPTIONS[size].label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
 
           <div>
             <label htmlFor="advanced-lighting" className="block text-xl font-semibold text-indigo-200 mb-2">
@@ -608,7 +1057,7 @@ const App: React.FC = () => {
       )}
 
       {/* STAGE 4: Generate Photorealistic Render */}
-      {sceneDescription.trim() !== '' && (
+      {!isBatchMode && sceneDescription.trim() !== '' && (
         <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
           <h2 className="text-2xl font-bold text-indigo-100">5. Generar Render Fotorrealista</h2>
           <p className="text-indigo-200">
@@ -626,13 +1075,48 @@ const App: React.FC = () => {
             <div className="mt-4 text-center text-indigo-300 text-lg">
               <LoadingSpinner />
               <p>{currentGenerationProgress}</p>
+              <button
+                onClick={handleCancelRender}
+                className="mt-3 py-1 px-5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700"
+              >
+                Cancelar
+              </button>
             </div>
           )}
         </section>
       )}
 
+      {/* Lighting sweep: same scene across several lighting setups */}
+      {!isBatchMode && uploadedSketchupScene && sceneDescription.trim() !== '' && (
+        <LightingSweepPanel
+          provider={renderProvider}
+          sketchupImage={uploadedSketchupScene}
+          sceneDescription={sceneDescription}
+          referenceImages={referenceImages}
+          materials={materialAssignments}
+          baseLighting={lightingConfig}
+          hasApiKey={hasApiKey}
+        />
+      )}
+
+      {/* Material library: reusable swatches assigned to scene objects */}
+      {!isBatchMode && <MaterialLibraryPanel items={libraryItems} />}
+
+      {/* Prompt lab: edit, version and A/B prompt templates */}
+      {!isBatchMode && (
+        <PromptLabPanel
+          provider={renderProvider}
+          sketchupImage={uploadedSketchupScene}
+          sceneDescription={sceneDescription}
+          referenceImages={referenceImages}
+          materials={materialAssignments}
+          lighting={lightingConfig}
+          hasApiKey={hasApiKey}
+        />
+      )}
+
       {/* Rendered Output Display */}
-      {generatedRender && (
+      {!isBatchMode && generatedRender && (
         <div className="mt-8 pt-8 border-t border-indigo-700">
           <h2 className="text-3xl md:text-4xl font-extrabold text-center mb-6 text-transparent bg-clip-text bg-gradient-to-r from-green-300 via-blue-300 to-teal-300">
             Tu Escena Renderizada
@@ -658,6 +1142,24 @@ const App: React.FC = () => {
               *Nota: Las imágenes generadas por IA pueden contener imperfecciones.
             </p>
           )}
+          {generatedRender.templateVersions && (
+            <p className="text-center text-xs text-indigo-400 mt-1">
+              Plantillas: {describeTemplateVersions(generatedRender.templateVersions)}
+            </p>
+          )}
+          {generatedRender.validation && (
+            <div className={`mt-3 p-3 rounded-lg text-sm text-center ${generatedRender.validation.passed ? 'text-green-300' : 'bg-yellow-900/30 border border-yellow-600 text-yellow-200'}`}>
+              <p>
+                {generatedRender.validation.passed ? 'Validación superada' : '⚠ El render no pasó la validación'}
+                {' · '}{generatedRender.validation.width}×{generatedRender.validation.height} (pedido {generatedRender.validation.expectedAspectRatio})
+                {generatedRender.validation.geometryScore !== null && ` · Geometría ${(generatedRender.validation.geometryScore * 100).toFixed(0)}%`}
+                {generatedRender.attempts && generatedRender.attempts > 1 && ` · ${generatedRender.attempts} intentos`}
+              </p>
+              {generatedRender.validation.issues.map((issue, index) => (
+                <p key={index} className="text-xs mt-1">{issue}</p>
+              ))}
+            </div>
+          )}
 
           <div className="flex justify-center flex-wrap gap-4 mt-6">
             {generatedRender.url && (
@@ -668,6 +1170,23 @@ const App: React.FC = () => {
                 Descargar Imagen Generada
               </button>
             )}
+            {generatedRender.url && sketchupScenePreview && (
+              <button
+                onClick={() => setIsComparisonOpen(open => !open)}
+                className="py-3 px-8 bg-teal-600 text-white font-bold rounded-full shadow-lg hover:bg-teal-700 transition duration-300 ease-in-out transform hover:scale-105"
+              >
+                {isComparisonOpen ? 'Ocultar Comparación' : 'Comparar con SketchUp'}
+              </button>
+            )}
+            {generatedRender.url && !isMaskEditorOpen && (
+              <button
+                onClick={() => setIsMaskEditorOpen(true)}
+                disabled={!hasApiKey}
+                className="py-3 px-8 bg-blue-600 text-white font-bold rounded-full shadow-lg hover:bg-blue-700 transition duration-300 ease-in-out transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Editar una Región
+              </button>
+            )}
             {generatedRender.url && (
               <button
                 onClick={handleSaveLightingConfig}
@@ -683,8 +1202,68 @@ const App: React.FC = () => {
               Comenzar Nueva Escena
             </button>
           </div>
+
+          {generatedRender.url && sketchupScenePreview && isComparisonOpen && (
+            <ComparisonViewer beforeUrl={sketchupScenePreview} afterUrl={generatedRender.url} />
+          )}
+
+          {activeVersionId && renderVersions.length > 0 && (
+            <RenderVersionChain
+              versions={renderVersions}
+              activeVersionId={activeVersionId}
+              isBusy={isRevisingRender}
+              canRefine={hasApiKey && !isMaskEditorOpen}
+              onSelect={handleSelectVersion}
+              onRefine={handleRefineRender}
+              onCancel={handleCancelRevision}
+            />
+          )}
+
+          {generatedRender.url && (
+            <PostProcessPanel renderUrl={generatedRender.url} lighting={renderedLighting} onDownload={setDownloadUrl} />
+          )}
+
+          {generatedRender.url && downloadUrl && (
+            <DownloadDialog
+              renderUrl={downloadUrl}
+              metadata={{
+                prompt: generatedRender.prompt ?? '',
+                modelName: renderProvider.modelName,
+                lighting: renderedLighting,
+                createdAt: new Date(activeVersion?.createdAt ?? Date.now()).toISOString(),
+              }}
+              fields={{
+                view: uploadedSketchupScene?.name.replace(/\.[^.]+$/, '') ?? '',
+                lighting: describeLightingForFilename(renderedLighting),
+                version: activeVersion?.label ?? '',
+              }}
+              onClose={() => setDownloadUrl(null)}
+            />
+          )}
+
+          {generatedRender.url && isMaskEditorOpen && (
+            <MaskEditor
+              imageUrl={generatedRender.url}
+              isBusy={isRevisingRender}
+              onApply={handleApplyRegionEdit}
+              onCancel={handleCancelRevision}
+              onClose={() => setIsMaskEditorOpen(false)}
+            />
+          )}
         </div>
       )}
+
+      {pendingSketchupScene && (
+        <InputPreprocessDialog
+          file={pendingSketchupScene}
+          onApply={handleSketchupScenePrepared}
+          onCancel={() => setPendingSketchupScene(null)}
+        />
+      )}
+
+      <HistoryPanel onOpenEntry={handleOpenHistoryEntry} />
+
+      <PresentationExportPanel />
     </div>
   );
 };
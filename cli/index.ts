@@ -0,0 +1,106 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { LightingConfig, LightingType } from '../types';
+import { getRenderProvider } from '../services/renderService';
+import { getActivePromptTemplates } from '../services/promptTemplates';
+import { validateLightingConfig } from '../services/lightingConfig';
+import { DEFAULT_OUTPUT_FORMAT } from '../services/outputFormat';
+import { configureGeminiFromEnv } from '../server/env';
+import { renderFolder } from './renderFolder';
+
+// Entry point for `npm run event-render -- render <folder> [options]`
+
+const USAGE = `Usage: event-render render <views-folder> [options]
+
+Renders every PNG/JPEG/WebP view in the folder and writes the results plus manifest.json.
+Running the same command again resumes an interrupted batch.
+
+Options:
+  --out <dir>          Output folder (default: ./renders)
+  --config <file>      Lighting settings saved from the app (lighting_config.json)
+  --lighting <type>    day, sunset or night; overrides the type from --config
+  --provider <name>    gemini or mock (default: RENDER_PROVIDER, then gemini)
+  --concurrency <n>    Views rendered at the same time (default: 1)
+  --restart            Ignore the previous manifest and render everything again
+  -h, --help           Show this help
+
+Gemini needs GEMINI_API_KEY, or RENDER_PROXY_URL to go through the proxy server.`;
+
+// Same starting values as the app
+const DEFAULT_LIGHTING: LightingConfig = {
+  lightingType: LightingType.Day,
+  advancedLightingInstructions: '',
+  colorTemperature: 'neutral',
+  exposureCompensation: 'standard',
+  contrastEnhancement: 'natural',
+  outputFormat: DEFAULT_OUTPUT_FORMAT,
+};
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const loadLighting = async (configPath: string | undefined, lightingType: string | undefined): Promise<LightingConfig> => {
+  const base = configPath ? JSON.parse(await readFile(configPath, 'utf8')) : DEFAULT_LIGHTING;
+  // Validating after the override also rejects an unknown --lighting value
+  return validateLightingConfig(lightingType ? { ...base, lightingType } : base);
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'renders' },
+      config: { type: 'string' },
+      lighting: { type: 'string' },
+      provider: { type: 'string' },
+      concurrency: { type: 'string', default: '1' },
+      restart: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const [command, inputDir] = positionals;
+  if (command !== 'render' || !inputDir) fail('Expected: render <views-folder>');
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) fail('--concurrency must be a positive integer.');
+
+  const provider = getRenderProvider(values.provider);
+  if (provider.requiresApiKey && !configureGeminiFromEnv()) {
+    fail('GEMINI_API_KEY is not set (or set RENDER_PROXY_URL, or use --provider mock).');
+  }
+
+  // First Ctrl+C cancels the calls in flight and lets the manifest be written; a second one exits immediately
+  const controller = new AbortController();
+  process.on('SIGINT', () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.log('\nStopping; finished views are in the manifest. Run the same command again to resume.');
+    controller.abort();
+  });
+
+  const summary = await renderFolder({
+    inputDir: resolve(inputDir),
+    outputDir: resolve(values.out),
+    provider,
+    lighting: await loadLighting(values.config, values.lighting),
+    templates: getActivePromptTemplates(),
+    concurrency,
+    restart: values.restart,
+    signal: controller.signal,
+    log: message => console.log(message),
+  });
+
+  console.log(`\n${summary.rendered} rendered, ${summary.skipped} already done, ${summary.failed} failed of ${summary.total} views. Manifest: ${summary.manifestPath}`);
+  if (summary.cancelled) process.exitCode = 130;
+  else if (summary.failed > 0) process.exitCode = 1;
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
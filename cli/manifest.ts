@@ -0,0 +1,68 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { LightingConfig, PromptTemplateVersions, RenderErrorKind } from '../types';
+
+export const CLI_MANIFEST_FORMAT = 'event-render-cli-manifest';
+export const CLI_MANIFEST_VERSION = 1;
+export const CLI_MANIFEST_FILENAME = 'manifest.json';
+
+// 'detected' = scene description saved, render still missing (e.g. the run was interrupted)
+export type ViewStatus = 'detected' | 'done' | 'failed';
+
+export interface ViewRecord {
+  status: ViewStatus;
+  output: string | null; // File name inside the output folder
+  sceneDescription: string | null; // Reused on resume so detection is not paid twice
+  prompt: string | null;
+  error: string | null;
+  errorKind?: RenderErrorKind;
+  updatedAt: string;
+}
+
+export interface RenderManifest {
+  format: typeof CLI_MANIFEST_FORMAT;
+  version: number;
+  provider: string;
+  modelName: string;
+  lighting: LightingConfig;
+  templateVersions: PromptTemplateVersions;
+  startedAt: string;
+  updatedAt: string;
+  // Keyed by the source file name inside the input folder
+  views: Record<string, ViewRecord>;
+}
+
+/** The manifest of a previous run, or null when the folder has none yet. */
+export const readManifest = async (path: string): Promise<RenderManifest | null> => {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  const manifest = JSON.parse(content) as RenderManifest;
+  if (manifest?.format !== CLI_MANIFEST_FORMAT || typeof manifest.views !== 'object') {
+    throw new Error(`${path} is not an event-render manifest.`);
+  }
+  if (manifest.version > CLI_MANIFEST_VERSION) {
+    throw new Error(`${path} was written by a newer version (manifest v${manifest.version}).`);
+  }
+  return manifest;
+};
+
+/**
+ * Returns a writer that saves the manifest atomically (temp file + rename), one write at a time,
+ * so a crash or Ctrl+C never leaves a half-written file behind.
+ */
+export const createManifestWriter = (path: string) => {
+  let pending: Promise<void> = Promise.resolve();
+  return (manifest: RenderManifest): Promise<void> => {
+    const snapshot = JSON.stringify({ ...manifest, updatedAt: new Date().toISOString() }, null, 2);
+    // A failed write is reported to its caller but does not block the next one
+    pending = pending.catch(() => undefined).then(async () => {
+      await writeFile(`${path}.tmp`, snapshot);
+      await rename(`${path}.tmp`, path);
+    });
+    return pending;
+  };
+};
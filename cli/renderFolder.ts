@@ -0,0 +1,164 @@
+import { access, mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { extname, join, parse } from 'node:path';
+import { LightingConfig, PromptTemplateSet, RenderProvider } from '../types';
+import { generateSingleRender } from '../services/renderService';
+import { runWithConcurrency } from '../services/renderQueue';
+import { getTemplateVersions } from '../services/promptTemplates';
+import { classifyError, isAbortError } from '../services/renderErrors';
+import { createImageInput, dataUrlToBlob, extensionForMimeType, mimeTypeForExtension } from '../services/imageUtils';
+import { embedImageMetadata } from '../services/imageMetadata';
+import {
+  CLI_MANIFEST_FORMAT,
+  CLI_MANIFEST_VERSION,
+  CLI_MANIFEST_FILENAME,
+  RenderManifest,
+  ViewRecord,
+  createManifestWriter,
+  readManifest,
+} from './manifest';
+
+const VIEW_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp'];
+
+export interface RenderFolderOptions {
+  inputDir: string;
+  outputDir: string;
+  provider: RenderProvider;
+  lighting: LightingConfig;
+  templates: PromptTemplateSet;
+  concurrency: number;
+  // Ignore the manifest of a previous run and render every view again
+  restart: boolean;
+  signal: AbortSignal;
+  log: (message: string) => void;
+}
+
+export interface RenderFolderSummary {
+  total: number;
+  rendered: number;
+  skipped: number;
+  failed: number;
+  cancelled: boolean;
+  manifestPath: string;
+}
+
+const fileExists = (path: string) => access(path).then(() => true, () => false);
+
+/** Image files directly inside `dir`, in natural order (view2 before view10). */
+export const listViewFiles = async (dir: string): Promise<string[]> =>
+  (await readdir(dir, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && VIEW_EXTENSIONS.includes(extname(entry.name).toLowerCase()))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+/**
+ * Detects, refines and renders every view of `inputDir` into `outputDir`, recording each step in
+ * manifest.json. A second run with the same lighting skips finished views and reuses saved scene
+ * descriptions, so an interrupted batch resumes where it stopped.
+ */
+export const renderFolder = async ({
+  inputDir,
+  outputDir,
+  provider,
+  lighting,
+  templates,
+  concurrency,
+  restart,
+  signal,
+  log,
+}: RenderFolderOptions): Promise<RenderFolderSummary> => {
+  const views = await listViewFiles(inputDir);
+  if (views.length === 0) throw new Error(`No PNG, JPEG or WebP files in ${inputDir}.`);
+
+  await mkdir(outputDir, { recursive: true });
+  const manifestPath = join(outputDir, CLI_MANIFEST_FILENAME);
+  const previous = restart ? null : await readManifest(manifestPath);
+  if (previous && JSON.stringify(previous.lighting) !== JSON.stringify(lighting)) {
+    throw new Error(`${manifestPath} was rendered with different lighting. Use another --out folder or pass --restart.`);
+  }
+
+  const now = new Date().toISOString();
+  const manifest: RenderManifest = previous ?? {
+    format: CLI_MANIFEST_FORMAT,
+    version: CLI_MANIFEST_VERSION,
+    provider: provider.name,
+    modelName: provider.modelName,
+    lighting,
+    templateVersions: getTemplateVersions(templates),
+    startedAt: now,
+    updatedAt: now,
+    views: {},
+  };
+  const saveManifest = createManifestWriter(manifestPath);
+  const summary: RenderFolderSummary = { total: views.length, rendered: 0, skipped: 0, failed: 0, cancelled: false, manifestPath };
+
+  const updateView = (view: string, record: Omit<ViewRecord, 'updatedAt'>) => {
+    manifest.views[view] = { ...record, updatedAt: new Date().toISOString() };
+    return saveManifest(manifest);
+  };
+
+  await runWithConcurrency(views, concurrency, async (view, index) => {
+    if (signal.aborted) return;
+    const label = `[${index + 1}/${views.length}] ${view}`;
+    const record = manifest.views[view];
+    if (record?.status === 'done' && record.output && await fileExists(join(outputDir, record.output))) {
+      summary.skipped++;
+      log(`${label}: already rendered, skipping`);
+      return;
+    }
+
+    // Every step after the skip check fails only this view, and is recorded as such in the manifest
+    let step = 'reading';
+    let sceneDescription = record?.sceneDescription ?? null;
+    let prompt: string | null = null;
+    try {
+      const bytes = new Uint8Array(await readFile(join(inputDir, view)));
+      const image = createImageInput(bytes, view, mimeTypeForExtension(extname(view).slice(1)));
+
+      if (sceneDescription) {
+        log(`${label}: reusing saved scene description`);
+      } else {
+        log(`${label}: detecting scene elements`);
+        step = 'detection';
+        sceneDescription = await provider.detect([image], templates, signal);
+        await updateView(view, { status: 'detected', output: null, sceneDescription, prompt: null, error: null });
+      }
+
+      step = 'render';
+      const result = await generateSingleRender(provider, image, sceneDescription, [], lighting, message => log(`${label}: ${message}`), { templates, signal });
+      if (result.errorKind === 'cancelled') return;
+      prompt = result.prompt;
+      if (!result.url) {
+        summary.failed++;
+        log(`${label}: render failed: ${result.error}`);
+        await updateView(view, { status: 'failed', output: null, sceneDescription, prompt, error: result.error, errorKind: result.errorKind });
+        return;
+      }
+
+      step = 'saving';
+      const rendered = await embedImageMetadata(dataUrlToBlob(result.url), {
+        prompt: result.prompt ?? '',
+        modelName: provider.modelName,
+        lighting,
+        createdAt: new Date().toISOString(),
+      });
+      // "hall.png" and "hall.jpg" would both become "hall.<ext>"; such views keep their extension in the name
+      const baseName = views.filter(other => parse(other).name === parse(view).name).length > 1 ? view.replace(/\./g, '_') : parse(view).name;
+      const output = `${baseName}.${extensionForMimeType(rendered.type)}`;
+      await writeFile(join(outputDir, output), new Uint8Array(await rendered.arrayBuffer()));
+      await updateView(view, { status: 'done', output, sceneDescription, prompt, error: null });
+      summary.rendered++;
+      log(`${label}: saved ${output}`);
+    } catch (error) {
+      const renderError = classifyError(error);
+      if (isAbortError(renderError)) return;
+      // Reading and saving are local; their own message (e.g. EACCES) says more than a model error class
+      const message = (step === 'reading' || step === 'saving') && error instanceof Error ? error.message : renderError.message;
+      summary.failed++;
+      log(`${label}: ${step} failed: ${message}`);
+      await updateView(view, { status: 'failed', output: null, sceneDescription, prompt, error: message, errorKind: renderError.kind });
+    }
+  });
+
+  summary.cancelled = signal.aborted;
+  return summary;
+};
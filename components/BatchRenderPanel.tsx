@@ -0,0 +1,402 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import DownloadDialog from './DownloadDialog';
+import { generateSingleRender } from '../services/renderService';
+import { runWithConcurrency } from '../services/renderQueue';
+import { validateRender } from '../services/renderValidation';
+import { saveRenderToHistory } from '../services/historyStore';
+import { getActivePromptTemplates } from '../services/promptTemplates';
+import { autoPreprocessInputImage, loadInputPreprocessSettings } from '../services/inputPreprocessing';
+import { describeLightingForFilename } from '../services/imageExport';
+import { getRenderLighting } from '../services/renderVersions';
+import { BatchItem, LightingConfig, RenderProvider } from '../types';
+
+interface BatchRenderPanelProps {
+  provider: RenderProvider;
+  lighting: LightingConfig; // Shared by every view in the batch
+  hasApiKey: boolean;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const DEFAULT_CONCURRENCY = 2;
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  pending: 'Pendiente',
+  detecting: 'Detectando...',
+  ready: 'Lista',
+  rendering: 'Renderizando...',
+  done: 'Completada',
+  error: 'Error',
+};
+
+let nextBatchItemId = 0;
+
+const BatchRenderPanel: React.FC<BatchRenderPanelProps> = ({ provider, lighting, hasApiKey }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isPreparing, setIsPreparing] = useState<boolean>(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [downloadItemId, setDownloadItemId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // One controller per view in flight, plus one for the running "… Todas" queue, so Cancel stops both
+  const itemControllersRef = useRef(new Map<string, AbortController>());
+  const queueAbortRef = useRef<AbortController | null>(null);
+
+  // Latest items, for the unmount cleanup and for queued views picked up after edits
+  const itemsRef = useRef<BatchItem[]>(items);
+  itemsRef.current = items;
+  useEffect(() => () => {
+    queueAbortRef.current?.abort();
+    itemControllersRef.current.forEach(controller => controller.abort());
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl));
+  }, []);
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  // Views get the saved preprocessing settings (trim, downscale, format) without the dialog
+  const handleFilesChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []) as File[];
+    // Allow re-selecting the same files
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+
+    setIsPreparing(true);
+    setUploadError(null);
+    const settings = loadInputPreprocessSettings();
+    const failed: string[] = [];
+    // One at a time: each decode holds the full-size image in memory
+    for (const source of files) {
+      try {
+        const file = await autoPreprocessInputImage(source, settings);
+        const item: BatchItem = {
+          id: `batch-${nextBatchItemId++}`,
+          file,
+          previewUrl: URL.createObjectURL(file),
+          description: '',
+          status: 'pending',
+          progress: '',
+          renderUrl: null,
+          error: null,
+          validation: null,
+          renderMetadata: null,
+        };
+        setItems(prev => [...prev, item]);
+      } catch (err: any) {
+        console.error(`Error preparing ${source.name}:`, err);
+        failed.push(`${source.name}: ${err.message || 'Error desconocido'}`);
+      }
+    }
+    if (failed.length > 0) setUploadError(`No se pudieron cargar ${failed.length} vista(s). ${failed.join(' ')}`);
+    setIsPreparing(false);
+  }, []);
+
+  const handleRemoveItem = useCallback((itemToRemove: BatchItem) => {
+    URL.revokeObjectURL(itemToRemove.previewUrl);
+    setItems(prev => prev.filter(item => item.id !== itemToRemove.id));
+  }, []);
+
+  const handleClearBatch = useCallback(() => {
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl));
+    setItems([]);
+  }, []);
+
+  const startItem = useCallback((id: string) => {
+    itemControllersRef.current.get(id)?.abort();
+    const controller = new AbortController();
+    itemControllersRef.current.set(id, controller);
+    return controller;
+  }, []);
+
+  const finishItem = useCallback((id: string, controller: AbortController) => {
+    if (itemControllersRef.current.get(id) === controller) itemControllersRef.current.delete(id);
+  }, []);
+
+  const detectItem = useCallback(async (item: BatchItem) => {
+    const controller = startItem(item.id);
+    updateItem(item.id, { status: 'detecting', error: null, progress: '' });
+    try {
+      const detected = await provider.detect([item.file], getActivePromptTemplates(), controller.signal);
+      updateItem(item.id, { status: 'ready', description: detected });
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        updateItem(item.id, { status: item.description.trim() ? 'ready' : 'pending' });
+        return;
+      }
+      console.error(`Error detecting scene elements for ${item.file.name}:`, err);
+      updateItem(item.id, { status: 'error', error: `Fallo al detectar elementos: ${err.message || 'Error desconocido'}` });
+    } finally {
+      finishItem(item.id, controller);
+    }
+  }, [provider, updateItem, startItem, finishItem]);
+
+  const renderItem = useCallback(async (item: BatchItem) => {
+    if (!item.description.trim()) {
+      updateItem(item.id, { status: 'error', error: 'Falta descripción.' });
+      return;
+    }
+    const controller = startItem(item.id);
+    updateItem(item.id, { status: 'rendering', error: null, renderUrl: null, validation: null, renderMetadata: null, progress: 'En cola...' });
+    const result = await generateSingleRender(
+      provider,
+      item.file,
+      item.description,
+      [],
+      lighting,
+      (message) => updateItem(item.id, { progress: message }),
+      { validate: validateRender, signal: controller.signal }
+    );
+    finishItem(item.id, controller);
+    if (result.errorKind === 'cancelled') {
+      updateItem(item.id, { status: 'ready', progress: '' });
+    } else if (result.url) {
+      updateItem(item.id, {
+        status: 'done',
+        renderUrl: result.url,
+        validation: result.validation ?? null,
+        renderMetadata: {
+          prompt: result.prompt ?? '',
+          modelName: provider.modelName,
+          lighting: getRenderLighting(result, lighting),
+          createdAt: new Date().toISOString(),
+        },
+        progress: 'Generación completada.',
+      });
+      saveRenderToHistory(provider, item.file, item.description, [], lighting, result)
+        .catch(err => console.error(`Error saving ${item.file.name} to history:`, err));
+    } else {
+      updateItem(item.id, { status: 'error', error: result.error, progress: '' });
+    }
+  }, [provider, lighting, updateItem, startItem, finishItem]);
+
+  // Views the cancelled queue has not started yet are skipped; the others are re-read when they start,
+  // so description edits made while they wait are used and removed views are dropped
+  const runQueue = useCallback(async (queued: BatchItem[], worker: (item: BatchItem) => Promise<void>) => {
+    const queue = new AbortController();
+    queueAbortRef.current = queue;
+    setIsRunning(true);
+    await runWithConcurrency(queued.map(item => item.id), concurrency, async id => {
+      const item = itemsRef.current.find(current => current.id === id);
+      if (item && !queue.signal.aborted) await worker(item);
+    });
+    if (queueAbortRef.current === queue) queueAbortRef.current = null;
+    setIsRunning(false);
+  }, [concurrency]);
+
+  const handleDetectAll = useCallback(() => runQueue(
+    items.filter(item => !item.description.trim() && item.status !== 'detecting'),
+    detectItem
+  ), [items, runQueue, detectItem]);
+
+  const handleRenderAll = useCallback(() => runQueue(
+    items.filter(item => item.description.trim() && item.status !== 'done' && item.status !== 'rendering'),
+    renderItem
+  ), [items, runQueue, renderItem]);
+
+  const handleCancelItem = useCallback((id: string) => {
+    itemControllersRef.current.get(id)?.abort();
+  }, []);
+
+  const handleCancelAll = useCallback(() => {
+    queueAbortRef.current?.abort();
+    itemControllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  const completedItems = items.filter(item => item.status === 'done' && item.renderUrl);
+  const downloadItem = items.find(item => item.id === downloadItemId);
+  const describedCount = items.filter(item => item.description.trim()).length;
+
+  return (
+    <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
+      <h2 className="text-2xl font-bold text-indigo-100">1. Carga tus Vistas de SketchUp (Lote)</h2>
+      <p className="text-indigo-200">
+        Sube todas las vistas de cámara del evento. Cada vista se detecta y se puede editar por separado; la iluminación definida abajo se aplica a todas.
+      </p>
+      <input
+        id="sketchup-batch-upload"
+        type="file"
+        accept="image/*"
+        multiple
+        onChange={handleFilesChange}
+        ref={fileInputRef}
+        className="hidden"
+      />
+      <div className="flex flex-col sm:flex-row gap-4">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRunning || isPreparing}
+          className="flex-1 py-3 px-6 rounded-full bg-indigo-600 text-white text-lg font-bold shadow-md hover:bg-indigo-700 transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPreparing
+            ? 'Preparando vistas...'
+            : items.length > 0 ? `Añadir Vistas (${items.length} cargadas)` : 'Subir Vistas de SketchUp'}
+        </button>
+        {items.length > 0 && (
+          <button
+            onClick={handleClearBatch}
+            disabled={isRunning}
+            className="py-3 px-6 rounded-full bg-red-700 text-white font-bold shadow-md hover:bg-red-800 transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Vaciar Lote
+          </button>
+        )}
+      </div>
+
+      {uploadError && <p className="text-sm text-red-300">{uploadError}</p>}
+
+      {items.length === 0 && (
+        <div className="mt-4 p-6 border-2 border-dashed border-indigo-600 rounded-md text-indigo-400 text-center">
+          <p>No se han seleccionado vistas de SketchUp.</p>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <>
+          <div className="flex flex-col sm:flex-row gap-4 items-center">
+            <label htmlFor="batch-concurrency" className="text-lg font-medium text-indigo-200">
+              Renders simultáneos:
+            </label>
+            <select
+              id="batch-concurrency"
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={isRunning}
+              className="p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+            >
+              {CONCURRENCY_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleDetectAll}
+              disabled={isRunning || !hasApiKey || describedCount === items.length}
+              className="flex-1 py-2 px-5 rounded-full bg-blue-600 text-white font-bold shadow-md hover:bg-blue-700 transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Detectar Todas
+            </button>
+            <button
+              onClick={handleRenderAll}
+              disabled={isRunning || !hasApiKey || describedCount === 0}
+              className="flex-1 py-2 px-5 rounded-full bg-gradient-to-r from-pink-500 to-purple-600 text-white font-bold shadow-md hover:from-pink-600 hover:to-purple-700 transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Renderizar Todas ({describedCount})
+            </button>
+          </div>
+          {isRunning && (
+            <div className="text-center">
+              <LoadingSpinner />
+              <button
+                onClick={handleCancelAll}
+                className="mt-2 py-1 px-5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700"
+              >
+                Cancelar
+              </button>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {items.map((item, index) => (
+              <div key={item.id} className="bg-indigo-900/40 p-4 rounded-lg border border-indigo-700 shadow-lg flex flex-col md:flex-row gap-4">
+                <div className="md:w-1/3">
+                  <img src={item.previewUrl} alt={`Vista ${index + 1}`} className="w-full h-auto object-cover rounded-md border border-indigo-600" />
+                  <p className="text-xs text-indigo-300 mt-1 truncate">{index + 1}. {item.file.name}</p>
+                  <p className={`text-sm font-semibold mt-1 ${item.status === 'error' ? 'text-red-300' : item.status === 'done' ? 'text-green-300' : 'text-indigo-200'}`}>
+                    {STATUS_LABELS[item.status]}
+                  </p>
+                  {item.status === 'rendering' && item.progress && (
+                    <p className="text-xs text-indigo-300">{item.progress}</p>
+                  )}
+                  {item.error && <p className="text-xs text-red-300">{item.error}</p>}
+                  {item.validation && !item.validation.passed && (
+                    <p className="text-xs text-yellow-300">⚠ {item.validation.issues.join(' ')}</p>
+                  )}
+                </div>
+                <div className="md:w-2/3 flex flex-col gap-2">
+                  <textarea
+                    value={item.description}
+                    onChange={(e) => updateItem(item.id, { description: e.target.value })}
+                    rows={6}
+                    disabled={item.status === 'detecting' || item.status === 'rendering'}
+                    className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200 resize-y"
+                    placeholder="Detecta o describe los elementos de esta vista..."
+                  ></textarea>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => detectItem(item)}
+                      disabled={!hasApiKey || item.status === 'detecting' || item.status === 'rendering'}
+                      className="py-1 px-4 rounded-full bg-blue-600 text-white text-sm font-bold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {item.description ? 'Volver a Detectar' : 'Detectar'}
+                    </button>
+                    <button
+                      onClick={() => renderItem(item)}
+                      disabled={!hasApiKey || !item.description.trim() || item.status === 'detecting' || item.status === 'rendering'}
+                      className="py-1 px-4 rounded-full bg-purple-600 text-white text-sm font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {item.status === 'error' || item.status === 'done' ? 'Reintentar Render' : 'Renderizar'}
+                    </button>
+                    {(item.status === 'detecting' || item.status === 'rendering') && (
+                      <button
+                        onClick={() => handleCancelItem(item.id)}
+                        className="py-1 px-4 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700"
+                      >
+                        Cancelar
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemoveItem(item)}
+                      disabled={item.status === 'detecting' || item.status === 'rendering'}
+                      className="py-1 px-4 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Quitar
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {completedItems.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-indigo-700">
+          <h3 className="text-2xl font-bold text-indigo-100 mb-4">Galería de Renders ({completedItems.length}/{items.length})</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {completedItems.map(item => (
+              <div key={item.id} className="border border-indigo-600 rounded-lg overflow-hidden shadow-md bg-indigo-900/40">
+                <img src={item.renderUrl!} alt={`Render ${item.file.name}`} className="w-full h-auto object-cover" />
+                <div className="flex items-center justify-between p-2">
+                  <p className="text-xs text-indigo-300 truncate">{item.file.name}</p>
+                  <button
+                    onClick={() => setDownloadItemId(item.id)}
+                    className="text-xs font-bold text-purple-200 hover:text-white underline"
+                  >
+                    Descargar
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {downloadItem?.renderUrl && downloadItem.renderMetadata && (
+        <DownloadDialog
+          renderUrl={downloadItem.renderUrl}
+          metadata={downloadItem.renderMetadata}
+          fields={{
+            view: downloadItem.file.name.replace(/\.[^.]+$/, ''),
+            lighting: describeLightingForFilename(downloadItem.renderMetadata.lighting),
+            version: '',
+          }}
+          onClose={() => setDownloadItemId(null)}
+        />
+      )}
+    </section>
+  );
+};
+
+export default BatchRenderPanel;
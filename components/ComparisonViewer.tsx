@@ -0,0 +1,242 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { composeEdgeOverlay } from '../services/imageComposite';
+
+interface ComparisonViewerProps {
+  // SketchUp input; centre-cropped to the render's frame like the model is asked to do
+  beforeUrl: string;
+  afterUrl: string;
+}
+
+type ComparisonMode = 'slider' | 'sideBySide' | 'overlay' | 'edges';
+
+const MODE_LABELS: Record<ComparisonMode, string> = {
+  slider: 'Deslizador',
+  sideBySide: 'Lado a lado',
+  overlay: 'Superposición',
+  edges: 'Bordes',
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+
+// Pan is stored as a percentage of the pane so side-by-side panes of any width stay in sync
+interface ViewTransform {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+const INITIAL_VIEW: ViewTransform = { zoom: 1, panX: 0, panY: 0 };
+
+// Keeps the zoomed image covering the pane
+const clampView = ({ zoom, panX, panY }: ViewTransform): ViewTransform => {
+  const clampedZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+  const limit = (clampedZoom - 1) * 50;
+  return {
+    zoom: clampedZoom,
+    panX: Math.min(limit, Math.max(-limit, panX)),
+    panY: Math.min(limit, Math.max(-limit, panY)),
+  };
+};
+
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ beforeUrl, afterUrl }) => {
+  const [mode, setMode] = useState<ComparisonMode>('slider');
+  const [sliderPosition, setSliderPosition] = useState<number>(50);
+  const [overlayOpacity, setOverlayOpacity] = useState<number>(0.5);
+  const [view, setView] = useState<ViewTransform>(INITIAL_VIEW);
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [edgeOverlayUrl, setEdgeOverlayUrl] = useState<string | null>(null);
+  const [edgeError, setEdgeError] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ target: 'pan' | 'slider'; x: number; y: number } | null>(null);
+
+  // The render defines the frame every pane is drawn in
+  useEffect(() => {
+    let cancelled = false;
+    const image = new Image();
+    image.onload = () => {
+      if (!cancelled) setAspectRatio(image.naturalWidth / image.naturalHeight);
+    };
+    image.src = afterUrl;
+    setView(INITIAL_VIEW);
+    return () => {
+      cancelled = true;
+    };
+  }, [afterUrl]);
+
+  useEffect(() => {
+    setEdgeOverlayUrl(null);
+    setEdgeError(null);
+    if (mode !== 'edges' || aspectRatio === null) return;
+    let cancelled = false;
+    composeEdgeOverlay(beforeUrl, aspectRatio)
+      .then(url => {
+        if (!cancelled) setEdgeOverlayUrl(url);
+      })
+      .catch(err => {
+        if (!cancelled) setEdgeError(`No se pudieron calcular los bordes: ${err.message || 'Error desconocido'}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, beforeUrl, aspectRatio]);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      setView(current => clampView({ ...current, zoom: current.zoom * factor }));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [aspectRatio]);
+
+  const zoomBy = useCallback((factor: number) => {
+    setView(current => clampView({ ...current, zoom: current.zoom * factor }));
+  }, []);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const isHandle = (event.target as HTMLElement).dataset.sliderHandle !== undefined;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { target: isHandle ? 'slider' : 'pan', x: event.clientX, y: event.clientY };
+  }, []);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    if (drag.target === 'slider') {
+      setSliderPosition(Math.min(100, Math.max(0, ((event.clientX - rect.left) / rect.width) * 100)));
+      return;
+    }
+    const deltaX = ((event.clientX - drag.x) / rect.width) * 100;
+    const deltaY = ((event.clientY - drag.y) / rect.height) * 100;
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY };
+    setView(current => clampView({ ...current, panX: current.panX + deltaX, panY: current.panY + deltaY }));
+  }, []);
+
+  const handlePointerUp = useCallback(() => {
+    dragRef.current = null;
+  }, []);
+
+  const transformStyle: React.CSSProperties = {
+    transform: `translate(${view.panX}%, ${view.panY}%) scale(${view.zoom})`,
+  };
+
+  const renderLayer = (url: string, alt: string, style?: React.CSSProperties) => (
+    <div className="absolute inset-0" style={style}>
+      <div className="absolute inset-0" style={transformStyle}>
+        <img src={url} alt={alt} draggable={false} className="w-full h-full object-cover select-none" />
+      </div>
+    </div>
+  );
+
+  const renderPane = (children: React.ReactNode, label?: string) => (
+    <div
+      className={`relative overflow-hidden rounded-md border border-indigo-600 bg-gray-900 touch-none ${view.zoom > 1 ? 'cursor-grab' : ''}`}
+      style={{ aspectRatio: aspectRatio ?? undefined }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={handlePointerUp}
+    >
+      {children}
+      {label && <span className="absolute top-2 left-2 px-2 rounded bg-black/60 text-xs text-indigo-100 pointer-events-none">{label}</span>}
+    </div>
+  );
+
+  return (
+    <div className="mt-6 p-4 bg-indigo-900/40 rounded-lg border border-indigo-600 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="text-xl font-semibold text-indigo-100">Comparar con SketchUp</h3>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(MODE_LABELS) as ComparisonMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`py-1 px-3 rounded-full text-sm font-bold ${mode === option ? 'bg-purple-600 text-white' : 'bg-indigo-800 text-indigo-200 hover:bg-indigo-700'}`}
+            >
+              {MODE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {aspectRatio === null ? (
+        <div className="text-center"><LoadingSpinner /></div>
+      ) : (
+        <div ref={viewportRef}>
+          {mode === 'slider' && renderPane(
+            <>
+              {renderLayer(afterUrl, 'Render')}
+              {renderLayer(beforeUrl, 'SketchUp', { clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` })}
+              <div
+                data-slider-handle
+                className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize flex justify-center"
+                style={{ left: `${sliderPosition}%` }}
+              >
+                <div data-slider-handle className="w-0.5 h-full bg-white shadow" />
+              </div>
+            </>
+          )}
+
+          {mode === 'sideBySide' && (
+            <div className="grid grid-cols-2 gap-2">
+              {renderPane(renderLayer(beforeUrl, 'SketchUp'), 'SketchUp')}
+              {renderPane(renderLayer(afterUrl, 'Render'), 'Render')}
+            </div>
+          )}
+
+          {mode === 'overlay' && renderPane(
+            <>
+              {renderLayer(afterUrl, 'Render')}
+              {renderLayer(beforeUrl, 'SketchUp', { opacity: overlayOpacity })}
+            </>
+          )}
+
+          {mode === 'edges' && renderPane(
+            <>
+              {renderLayer(afterUrl, 'Render')}
+              {edgeOverlayUrl && renderLayer(edgeOverlayUrl, 'Bordes de SketchUp')}
+            </>
+          )}
+        </div>
+      )}
+
+      {mode === 'edges' && !edgeOverlayUrl && !edgeError && aspectRatio !== null && (
+        <p className="text-sm text-indigo-300 text-center">Calculando bordes...</p>
+      )}
+      {edgeError && <p className="text-sm text-red-300 text-center">{edgeError}</p>}
+
+      <div className="flex flex-wrap items-center gap-4 text-indigo-200 text-sm">
+        {mode === 'overlay' && (
+          <label className="flex items-center gap-2">
+            Opacidad SketchUp:
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(overlayOpacity * 100)}
+              onChange={(e) => setOverlayOpacity(Number(e.target.value) / 100)}
+              className="accent-purple-500"
+            />
+          </label>
+        )}
+        <div className="flex items-center gap-2">
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={view.zoom <= MIN_ZOOM} aria-label="Alejar" className="py-1 px-3 rounded-full bg-indigo-800 font-bold hover:bg-indigo-700 disabled:opacity-50">−</button>
+          <span className="w-12 text-center">{Math.round(view.zoom * 100)}%</span>
+          <button onClick={() => zoomBy(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM} aria-label="Acercar" className="py-1 px-3 rounded-full bg-indigo-800 font-bold hover:bg-indigo-700 disabled:opacity-50">+</button>
+          <button onClick={() => setView(INITIAL_VIEW)} disabled={view.zoom === MIN_ZOOM} className="py-1 px-3 rounded-full bg-indigo-800 font-bold hover:bg-indigo-700 disabled:opacity-50">Restablecer</button>
+        </div>
+        <span className="text-xs text-indigo-400">Rueda para acercar, arrastra para desplazar.</span>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonViewer;
@@ -0,0 +1,158 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import {
+  IMAGE_FILE_FORMATS,
+  FILENAME_PLACEHOLDERS,
+  FilenameFields,
+  loadDownloadSettings,
+  saveDownloadSettings,
+  buildDownloadFilename,
+  formatFilenameTimestamp,
+  encodeRenderFile,
+} from '../services/imageExport';
+import { DownloadSettings, ImageFileFormat, RenderFileMetadata } from '../types';
+
+interface DownloadDialogProps {
+  renderUrl: string;
+  metadata: RenderFileMetadata;
+  // Every filename field except the project name (typed in the dialog) and the timestamp (taken on download)
+  fields: Omit<FilenameFields, 'project' | 'timestamp'>;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none';
+
+const DownloadDialog: React.FC<DownloadDialogProps> = ({ renderUrl, metadata, fields, onClose }) => {
+  const [settings, setSettings] = useState<DownloadSettings>(loadDownloadSettings);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { extension, lossy } = IMAGE_FILE_FORMATS[settings.format];
+
+  const buildFilename = useCallback((date: Date) => buildDownloadFilename(
+    settings.filenameTemplate,
+    { ...fields, project: settings.projectName, timestamp: formatFilenameTimestamp(date) },
+    extension
+  ), [settings.filenameTemplate, settings.projectName, fields, extension]);
+
+  const previewFilename = useMemo(() => buildFilename(new Date()), [buildFilename]);
+
+  const updateSettings = useCallback((changes: Partial<DownloadSettings>) => {
+    setSettings(current => ({ ...current, ...changes }));
+  }, []);
+
+  const handleDownload = useCallback(async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const file = await encodeRenderFile(renderUrl, settings.format, settings.quality, metadata);
+      saveDownloadSettings(settings);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = buildFilename(new Date());
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err: any) {
+      console.error('Error downloading render:', err);
+      setError(`No se pudo descargar la imagen: ${err.message || 'Error desconocido'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [renderUrl, settings, metadata, buildFilename, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={isSaving ? undefined : onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="download-dialog-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg p-6 bg-indigo-950 rounded-lg border border-indigo-600 shadow-2xl space-y-4"
+      >
+        <div className="flex justify-between items-center">
+          <h3 id="download-dialog-title" className="text-xl font-semibold text-indigo-100">Descargar Render</h3>
+          <button onClick={onClose} disabled={isSaving} className="text-indigo-300 hover:text-white disabled:opacity-50">✕</button>
+        </div>
+
+        <div>
+          <p className="text-sm text-indigo-200 mb-2">Formato</p>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(IMAGE_FILE_FORMATS) as ImageFileFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => updateSettings({ format })}
+                className={`py-1 px-4 rounded-full text-sm font-bold ${settings.format === format ? 'bg-purple-600 text-white' : 'bg-indigo-800 text-indigo-200 hover:bg-indigo-700'}`}
+              >
+                {IMAGE_FILE_FORMATS[format].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {lossy && (
+          <label className="flex items-center gap-3 text-sm text-indigo-200">
+            Calidad:
+            <input
+              type="range"
+              min={10}
+              max={100}
+              value={Math.round(settings.quality * 100)}
+              onChange={(e) => updateSettings({ quality: Number(e.target.value) / 100 })}
+              className="flex-1 accent-purple-500"
+            />
+            <span className="w-10 text-right">{Math.round(settings.quality * 100)}%</span>
+          </label>
+        )}
+
+        <label className="block text-sm text-indigo-200">
+          Proyecto
+          <input
+            type="text"
+            value={settings.projectName}
+            onChange={(e) => updateSettings({ projectName: e.target.value })}
+            placeholder="Ej.: Boda Garcia"
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+
+        <label className="block text-sm text-indigo-200">
+          Plantilla de nombre
+          <input
+            type="text"
+            value={settings.filenameTemplate}
+            onChange={(e) => updateSettings({ filenameTemplate: e.target.value })}
+            className={`${inputClassName} mt-1 font-mono`}
+          />
+        </label>
+        <p className="text-xs text-indigo-400">
+          Campos: {FILENAME_PLACEHOLDERS.map(placeholder => `{{${placeholder}}}`).join(', ')}
+        </p>
+        <p className="text-sm text-indigo-200 break-all">
+          Archivo: <span className="font-mono text-indigo-100">{previewFilename}</span>
+        </p>
+        <p className="text-xs text-indigo-400">
+          El prompt, el modelo ({metadata.modelName}) y la iluminación se guardan dentro del archivo como metadatos.
+        </p>
+
+        {error && <p className="text-red-300 text-sm">{error}</p>}
+
+        {isSaving ? (
+          <div className="text-center"><LoadingSpinner /></div>
+        ) : (
+          <button
+            onClick={handleDownload}
+            className="w-full py-3 px-6 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700"
+          >
+            Descargar
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DownloadDialog;
@@ -0,0 +1,130 @@
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { listHistoryEntries, deleteHistoryEntry, subscribeToHistory, getStorageEstimate } from '../services/historyStore';
+import { describeTemplateVersions } from '../services/promptTemplates';
+import { LIGHTING_TYPE_LABELS, COLOR_TEMPERATURE_LABELS } from '../constants';
+import { RenderHistoryEntry } from '../types';
+
+interface HistoryPanelProps {
+  onOpenEntry: (entry: RenderHistoryEntry) => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onOpenEntry }) => {
+  const [entries, setEntries] = useState<RenderHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await listHistoryEntries());
+      setStorage(await getStorageEstimate());
+      setError(null);
+    } catch (err: any) {
+      console.error('Error loading render history:', err);
+      setError(`No se pudo cargar el historial: ${err.message || 'Error desconocido'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+    return subscribeToHistory(loadEntries);
+  }, [loadEntries]);
+
+  const handleDelete = useCallback(async (entry: RenderHistoryEntry) => {
+    if (entry.id === undefined) return;
+    try {
+      await deleteHistoryEntry(entry.id);
+    } catch (err: any) {
+      setError(`No se pudo eliminar el render: ${err.message || 'Error desconocido'}`);
+    }
+  }, []);
+
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return entries;
+    return entries.filter(entry =>
+      [entry.sceneName, entry.sceneDescription, entry.refinedPrompt, entry.lighting.advancedLightingInstructions, LIGHTING_TYPE_LABELS[entry.lighting.lightingType]]
+        .some(field => field?.toLowerCase().includes(query))
+    );
+  }, [entries, searchQuery]);
+
+  return (
+    <section className="space-y-6 mt-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
+      <h2 className="text-2xl font-bold text-indigo-100">Historial de Renders</h2>
+      <p className="text-indigo-200">
+        Los renders se guardan en este navegador. Abre uno para recuperar su escena, descripción e iluminación en el editor.
+      </p>
+
+      <input
+        type="search"
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        placeholder="Buscar por escena, descripción o prompt..."
+        className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200"
+      />
+
+      {storage && storage.quota > 0 && (
+        <p className={`text-sm ${storage.usage / storage.quota > 0.9 ? 'text-yellow-300' : 'text-indigo-300'}`}>
+          Almacenamiento usado: {formatMegabytes(storage.usage)} de {formatMegabytes(storage.quota)}
+          {storage.usage / storage.quota > 0.9 && ' — casi lleno, elimina renders antiguos.'}
+        </p>
+      )}
+
+      {error && <p className="text-red-300">{error}</p>}
+      {isLoading && <LoadingSpinner />}
+
+      {!isLoading && filteredEntries.length === 0 && (
+        <div className="p-6 border-2 border-dashed border-indigo-600 rounded-md text-indigo-400 text-center">
+          <p>{entries.length === 0 ? 'Todavía no hay renders guardados.' : 'Ningún render coincide con la búsqueda.'}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {filteredEntries.map(entry => (
+          <div key={entry.id} className="border border-indigo-600 rounded-lg overflow-hidden shadow-md bg-indigo-900/40 flex flex-col">
+            <img src={entry.renderUrl} alt={`Render ${entry.sceneName}`} className="w-full h-40 object-cover" />
+            <div className="p-3 flex-grow space-y-1">
+              <p className="text-sm font-semibold text-indigo-100 truncate">{entry.sceneName}</p>
+              <p className="text-xs text-indigo-300">{new Date(entry.createdAt).toLocaleString('es')}</p>
+              <p className="text-xs text-indigo-300">
+                {LIGHTING_TYPE_LABELS[entry.lighting.lightingType]} · {COLOR_TEMPERATURE_LABELS[entry.lighting.colorTemperature]} · {entry.modelName}
+              </p>
+              {entry.templateVersions && (
+                <p className="text-xs text-indigo-400">{describeTemplateVersions(entry.templateVersions)}</p>
+              )}
+              {entry.referenceThumbnails.length > 0 && (
+                <div className="flex gap-1 pt-1">
+                  {entry.referenceThumbnails.map((thumbnail, index) => (
+                    <img key={index} src={thumbnail} alt={`Referencia ${index + 1}`} className="w-8 h-8 object-cover rounded border border-indigo-600" />
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2 p-3 pt-0">
+              <button
+                onClick={() => onOpenEntry(entry)}
+                className="flex-1 py-1 px-3 rounded-full bg-purple-600 text-white text-sm font-bold hover:bg-purple-700"
+              >
+                Abrir
+              </button>
+              <button
+                onClick={() => handleDelete(entry)}
+                className="py-1 px-3 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700"
+              >
+                Eliminar
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,295 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { formatFilenameTimestamp } from '../services/imageExport';
+import { extensionForMimeType } from '../services/imageUtils';
+
+interface ImageUploadProps {
+  id: string;
+  files: File[];
+  // Receives the new list after additions, removals and reordering
+  onChange: (files: File[]) => void;
+  // Replaces the default handling of new files (append, or replace when maxFiles is 1)
+  onAdd?: (added: File[]) => void;
+  maxFiles?: number;
+  maxFileBytes?: number;
+  acceptedTypes?: string[];
+  buttonLabel: string;
+  emptyLabel: string;
+  // Also take images pasted anywhere on the page, not only while the drop zone has focus
+  pasteFromPage?: boolean;
+  disabled?: boolean;
+  buttonClassName?: string;
+}
+
+export const DEFAULT_ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+const DEFAULT_MAX_FILE_BYTES = 40 * 1024 * 1024;
+
+// Some systems report HEIC photos without a MIME type
+const EXTENSION_TYPES: Record<string, string> = { heic: 'image/heic', heif: 'image/heif' };
+
+const fileType = (file: File) => file.type || EXTENSION_TYPES[file.name.split('.').pop()?.toLowerCase() ?? ''] || '';
+
+// File pickers filter on the same extensions, or they would hide those photos
+const acceptAttribute = (types: string[]) => [
+  ...types,
+  ...Object.entries(EXTENSION_TYPES).filter(([, type]) => types.includes(type)).map(([extension]) => `.${extension}`),
+].join(',');
+
+const describeTypes = (types: string[]) => types.map(type => type.replace('image/', '').toUpperCase()).join(', ');
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Clipboard images are all called "image.png"; give them a name that tells them apart
+const namePastedFile = (file: File, index: number) => new File(
+  [file],
+  `captura-${formatFilenameTimestamp(new Date())}${index > 0 ? `-${index + 1}` : ''}.${extensionForMimeType(file.type)}`,
+  { type: file.type }
+);
+
+// Stable React keys for files, so reordering moves thumbnails instead of rebuilding them
+const fileKeys = new WeakMap<File, number>();
+let nextFileKey = 0;
+const keyForFile = (file: File) => {
+  if (!fileKeys.has(file)) fileKeys.set(file, nextFileKey++);
+  return fileKeys.get(file)!;
+};
+
+// Object URL that lives exactly as long as the preview showing it
+const FilePreview: React.FC<{ file: File; className: string }> = ({ file, className }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url ? <img src={url} alt={file.name} className={className} draggable={false} /> : null;
+};
+
+const ImageUpload: React.FC<ImageUploadProps> = ({
+  id,
+  files,
+  onChange,
+  onAdd,
+  maxFiles = 1,
+  maxFileBytes = DEFAULT_MAX_FILE_BYTES,
+  acceptedTypes = DEFAULT_ACCEPTED_IMAGE_TYPES,
+  buttonLabel,
+  emptyLabel,
+  pasteFromPage = false,
+  disabled = false,
+  buttonClassName = 'bg-indigo-600 hover:bg-indigo-700',
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isDraggingOver, setIsDraggingOver] = useState<boolean>(false);
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  const isSingle = maxFiles === 1;
+  const isFull = !isSingle && files.length >= maxFiles;
+
+  const addFiles = useCallback((candidates: File[]) => {
+    if (disabled || candidates.length === 0) return;
+    const problems: string[] = [];
+    const valid = candidates.filter(file => {
+      if (!acceptedTypes.includes(fileType(file))) {
+        problems.push(`"${file.name}" no es un formato admitido (${describeTypes(acceptedTypes)}).`);
+        return false;
+      }
+      if (file.size > maxFileBytes) {
+        problems.push(`"${file.name}" supera el tamaño máximo de ${Math.round(maxFileBytes / (1024 * 1024))} MB.`);
+        return false;
+      }
+      return true;
+    });
+
+    const room = isSingle ? 1 : maxFiles - files.length;
+    const accepted = valid.slice(0, Math.max(0, room));
+    if (valid.length > accepted.length) {
+      problems.push(isSingle
+        ? 'Solo se puede cargar una imagen; se ha usado la primera.'
+        : `Solo se permiten un máximo de ${maxFiles} imágenes. Se han añadido ${accepted.length}.`);
+    }
+    setErrors(problems);
+    if (accepted.length === 0) return;
+
+    if (onAdd) onAdd(accepted);
+    else onChange(isSingle ? accepted : [...files, ...accepted]);
+  }, [disabled, acceptedTypes, maxFileBytes, isSingle, maxFiles, files, onAdd, onChange]);
+
+  const handleInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []) as File[]);
+    // Allow re-selecting the same files
+    event.target.value = '';
+  }, [addFiles]);
+
+  const handlePasteData = useCallback((clipboard: DataTransfer | null) => {
+    const pasted = Array.from(clipboard?.files ?? []).filter(file => file.type.startsWith('image/'));
+    if (pasted.length === 0) return false;
+    addFiles(pasted.map(namePastedFile));
+    return true;
+  }, [addFiles]);
+
+  const handlePaste = useCallback((event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (handlePasteData(event.clipboardData)) event.preventDefault();
+  }, [handlePasteData]);
+
+  // Page-wide paste skips text fields and pastes already taken by a focused drop zone
+  useEffect(() => {
+    if (!pasteFromPage || disabled) return;
+    const onPaste = (event: ClipboardEvent) => {
+      if (event.defaultPrevented || isEditableTarget(event.target)) return;
+      if (handlePasteData(event.clipboardData)) event.preventDefault();
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, [pasteFromPage, disabled, handlePasteData]);
+
+  // Thumbnail drags reorder; only drags carrying files are uploads
+  const isFileDrag = (event: React.DragEvent) => draggedIndex === null && event.dataTransfer.types.includes('Files');
+
+  const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(event) || disabled) return;
+    event.preventDefault();
+    setIsDraggingOver(true);
+  }, [draggedIndex, disabled]);
+
+  const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    setIsDraggingOver(false);
+    addFiles(Array.from(event.dataTransfer.files) as File[]);
+  }, [draggedIndex, addFiles]);
+
+  const moveFile = useCallback((from: number, to: number) => {
+    if (to < 0 || to >= files.length || from === to) return;
+    const reordered = [...files];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+  }, [files, onChange]);
+
+  const handleRemove = useCallback((index: number) => {
+    onChange(files.filter((_, fileIndex) => fileIndex !== index));
+    setErrors([]);
+  }, [files, onChange]);
+
+  return (
+    <div className="space-y-4">
+      <input
+        id={id}
+        type="file"
+        accept={acceptAttribute(acceptedTypes)}
+        multiple={!isSingle}
+        onChange={handleInputChange}
+        ref={inputRef}
+        className="hidden"
+        disabled={disabled || isFull}
+      />
+      <div
+        tabIndex={0}
+        onPaste={handlePaste}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDraggingOver(false)}
+        onDrop={handleDrop}
+        className={`p-4 border-2 border-dashed rounded-md text-center outline-none focus:border-purple-400 transition duration-200 ${isDraggingOver ? 'border-purple-400 bg-purple-900/30' : 'border-indigo-600'}`}
+      >
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled || isFull}
+          className={`w-full py-3 px-6 rounded-full text-white text-lg font-bold shadow-md transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed ${buttonClassName}`}
+        >
+          {buttonLabel}
+        </button>
+        <p className="mt-3 text-sm text-indigo-300">
+          {isFull
+            ? `Has alcanzado el límite de ${maxFiles} imágenes. Elimina alguna para añadir nuevas.`
+            : `También puedes arrastrar ${isSingle ? 'la imagen' : 'imágenes'} aquí o pegar${isSingle ? 'la' : 'las'} con Ctrl+V${pasteFromPage ? '' : ' tras hacer clic en este recuadro'}.`}
+        </p>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-300 space-y-1">
+          {errors.map((message, index) => <li key={index}>{message}</li>)}
+        </ul>
+      )}
+
+      {files.length === 0 && (
+        <div className="p-6 border-2 border-dashed border-indigo-600 rounded-md text-indigo-400 text-center">
+          <p>{emptyLabel}</p>
+        </div>
+      )}
+
+      {isSingle && files.length > 0 && (
+        <div className="relative group">
+          <FilePreview file={files[0]} className="w-full h-auto object-cover rounded-md border border-indigo-600" />
+          <button
+            onClick={() => handleRemove(0)}
+            disabled={disabled}
+            className="absolute top-2 right-2 bg-red-600 text-white rounded-full px-2 py-1 text-xs opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+            aria-label={`Quitar ${files[0].name}`}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {!isSingle && files.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {files.map((file, index) => (
+            <div
+              key={keyForFile(file)}
+              draggable={!disabled}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                // Firefox only starts a drag that carries some data
+                event.dataTransfer.setData('text/plain', file.name);
+                setDraggedIndex(index);
+              }}
+              onDragOver={(event) => {
+                if (draggedIndex === null) return;
+                event.preventDefault();
+                if (draggedIndex !== index) {
+                  moveFile(draggedIndex, index);
+                  setDraggedIndex(index);
+                }
+              }}
+              onDragEnd={() => setDraggedIndex(null)}
+              className={`relative group border rounded-md overflow-hidden shadow-md cursor-move ${draggedIndex === index ? 'border-purple-400 opacity-60' : 'border-indigo-600'}`}
+            >
+              <FilePreview file={file} className="w-full h-24 object-cover pointer-events-none" />
+              <button
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+                className="absolute top-1 right-1 bg-red-600 text-white rounded-full p-1 text-xs opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+                aria-label={`Quitar ${file.name}`}
+              >
+                ✕
+              </button>
+              <div className="flex items-center gap-1 p-1">
+                <button
+                  onClick={() => moveFile(index, index - 1)}
+                  disabled={disabled || index === 0}
+                  className="text-xs text-indigo-300 hover:text-white disabled:opacity-30"
+                  aria-label={`Mover ${file.name} antes`}
+                >
+                  ◀
+                </button>
+                <p className="flex-1 text-xs text-indigo-300 truncate">{index + 1}. {file.name}</p>
+                <button
+                  onClick={() => moveFile(index, index + 1)}
+                  disabled={disabled || index === files.length - 1}
+                  className="text-xs text-indigo-300 hover:text-white disabled:opacity-30"
+                  aria-label={`Mover ${file.name} después`}
+                >
+                  ▶
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageUpload;
@@ -0,0 +1,310 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import {
+  INPUT_FORMATS,
+  INPUT_MAX_SIZE_OPTIONS,
+  loadInputPreprocessSettings,
+  saveInputPreprocessSettings,
+  decodeInputImage,
+  defaultInputEdits,
+  detectUiBorders,
+  drawRotatedImage,
+  preprocessInputImage,
+  rotateBy,
+  rotatedSize,
+} from '../services/inputPreprocessing';
+import { IMAGE_FILE_FORMATS } from '../services/imageExport';
+import { InputImageEdits, InputPreprocessSettings, PixelRect } from '../types';
+
+interface InputPreprocessDialogProps {
+  file: File;
+  // Receives the processed file, which is exactly what the model will get
+  onApply: (processed: File) => void;
+  onCancel: () => void;
+}
+
+// Resolution of the on-screen editing copy; the crop itself is kept in full-resolution pixels
+const EDITOR_SIZE = 1024;
+// Drags shorter than this (in image pixels) are clicks, not a new crop
+const MIN_CROP_PX = 16;
+const PREVIEW_DEBOUNCE_MS = 250;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const InputPreprocessDialog: React.FC<InputPreprocessDialogProps> = ({ file, onApply, onCancel }) => {
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [edits, setEdits] = useState<InputImageEdits>({ rotation: 0, crop: null });
+  const [settings, setSettings] = useState<InputPreprocessSettings>(loadInputPreprocessSettings);
+  const [preview, setPreview] = useState<{ file: File; url: string; width: number; height: number } | null>(null);
+  const [isProcessing, setIsProcessing] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const editorCanvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ start: { x: number; y: number }; previous: PixelRect | null } | null>(null);
+  const previewUrlRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let decoded: ImageBitmap | null = null;
+    decodeInputImage(file)
+      .then(bitmap => {
+        decoded = bitmap;
+        if (cancelled) {
+          bitmap.close();
+          return;
+        }
+        setImage(bitmap);
+        setEdits(defaultInputEdits(bitmap, loadInputPreprocessSettings()));
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err.message);
+        setIsProcessing(false);
+      });
+    return () => {
+      cancelled = true;
+      decoded?.close();
+    };
+  }, [file]);
+
+  // Editing copy of the rotated image
+  useEffect(() => {
+    const canvas = editorCanvasRef.current;
+    if (!image || !canvas) return;
+    const rotated = drawRotatedImage(image, edits.rotation, EDITOR_SIZE);
+    canvas.width = rotated.width;
+    canvas.height = rotated.height;
+    canvas.getContext('2d')?.drawImage(rotated, 0, 0);
+  }, [image, edits.rotation]);
+
+  // The preview is the real output, re-encoded shortly after every change
+  useEffect(() => {
+    if (!image) return;
+    let cancelled = false;
+    setIsProcessing(true);
+    const timer = setTimeout(async () => {
+      try {
+        const processed = await preprocessInputImage(image, edits, settings, file.name);
+        const bitmap = await createImageBitmap(processed);
+        const { width, height } = bitmap;
+        bitmap.close();
+        if (cancelled) return;
+        if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+        previewUrlRef.current = URL.createObjectURL(processed);
+        setPreview({ file: processed, url: previewUrlRef.current, width, height });
+        setError(null);
+      } catch (err: any) {
+        if (!cancelled) setError(`No se pudo procesar la imagen: ${err.message || 'Error desconocido'}`);
+      } finally {
+        if (!cancelled) setIsProcessing(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [image, edits, settings, file.name]);
+
+  useEffect(() => () => {
+    if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<InputPreprocessSettings>) => {
+    setSettings(current => ({ ...current, ...changes }));
+  }, []);
+
+  const handleRotate = useCallback((quarterTurns: number) => {
+    // A crop drawn on the old orientation no longer matches the image
+    setEdits(current => ({ rotation: rotateBy(current.rotation, quarterTurns), crop: null }));
+    setNotice(null);
+  }, []);
+
+  const handleAutoTrim = useCallback(() => {
+    if (!image) return;
+    const crop = detectUiBorders(image, edits.rotation);
+    setEdits(current => ({ ...current, crop }));
+    setNotice(crop ? null : 'No se encontraron bordes lisos que recortar.');
+  }, [image, edits.rotation]);
+
+  const toImagePoint = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const size = rotatedSize(image!, edits.rotation);
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return {
+      x: Math.round(clamp((event.clientX - rect.left) / rect.width) * size.width),
+      y: Math.round(clamp((event.clientY - rect.top) / rect.height) * size.height),
+    };
+  };
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (!image) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { start: toImagePoint(event), previous: edits.crop };
+    setNotice(null);
+  }, [image, edits]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toImagePoint(event);
+    const crop = {
+      x: Math.min(drag.start.x, point.x),
+      y: Math.min(drag.start.y, point.y),
+      width: Math.abs(point.x - drag.start.x),
+      height: Math.abs(point.y - drag.start.y),
+    };
+    setEdits(current => ({ ...current, crop: crop.width >= MIN_CROP_PX && crop.height >= MIN_CROP_PX ? crop : drag.previous }));
+  }, [image, edits.rotation]);
+
+  const handlePointerUp = useCallback(() => {
+    dragRef.current = null;
+  }, []);
+
+  const handleApply = useCallback(() => {
+    if (!preview) return;
+    saveInputPreprocessSettings(settings);
+    onApply(preview.file);
+  }, [preview, settings, onApply]);
+
+  const size = image ? rotatedSize(image, edits.rotation) : null;
+  const crop = edits.crop;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onCancel}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="input-preprocess-title"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-5xl max-h-full overflow-y-auto p-6 bg-indigo-950 rounded-lg border border-indigo-600 shadow-2xl space-y-4"
+      >
+        <div className="flex justify-between items-center">
+          <h3 id="input-preprocess-title" className="text-xl font-semibold text-indigo-100">Preparar Imagen: {file.name}</h3>
+          <button onClick={onCancel} className="text-indigo-300 hover:text-white">✕</button>
+        </div>
+        <p className="text-sm text-indigo-200">
+          Arrastra sobre la imagen para recortarla. Los bordes lisos de la interfaz de SketchUp se recortan automáticamente.
+        </p>
+
+        {!image && !error && <LoadingSpinner />}
+
+        {image && size && (
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm font-semibold text-indigo-200 mb-2">Original ({image.width} × {image.height} px, {formatBytes(file.size)})</p>
+              <div
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="relative overflow-hidden rounded-md border border-indigo-600 touch-none cursor-crosshair select-none"
+              >
+                <canvas ref={editorCanvasRef} className="block w-full h-auto" />
+                {crop && (
+                  <div
+                    className="absolute border-2 border-purple-400 pointer-events-none"
+                    style={{
+                      left: `${(crop.x / size.width) * 100}%`,
+                      top: `${(crop.y / size.height) * 100}%`,
+                      width: `${(crop.width / size.width) * 100}%`,
+                      height: `${(crop.height / size.height) * 100}%`,
+                      boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+                    }}
+                  />
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2 mt-2">
+                <button onClick={() => handleRotate(-1)} className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700">↺ Girar</button>
+                <button onClick={() => handleRotate(1)} className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700">↻ Girar</button>
+                <button onClick={handleAutoTrim} className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700">Recortar bordes de interfaz</button>
+                <button
+                  onClick={() => setEdits(current => ({ ...current, crop: null }))}
+                  disabled={!crop}
+                  className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Quitar recorte
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-semibold text-indigo-200 mb-2">
+                Se enviará{preview ? ` (${preview.width} × ${preview.height} px, ${IMAGE_FILE_FORMATS[settings.format].label}, ${formatBytes(preview.file.size)})` : ''}
+              </p>
+              <div className="relative rounded-md border border-indigo-600 bg-indigo-900/60 min-h-32">
+                {preview && <img src={preview.url} alt="Imagen que se enviará al modelo" className={`block w-full h-auto rounded-md ${isProcessing ? 'opacity-50' : ''}`} />}
+                {isProcessing && <div className="absolute inset-0 flex items-center justify-center"><LoadingSpinner /></div>}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-indigo-200">
+          <label className="flex items-center gap-2">
+            Tamaño máximo:
+            <select
+              value={settings.maxSize}
+              onChange={(e) => updateSettings({ maxSize: Number(e.target.value) })}
+              className="p-1 rounded-lg bg-indigo-900 border border-indigo-700 text-white"
+            >
+              {INPUT_MAX_SIZE_OPTIONS.map(option => <option key={option} value={option}>{option} px</option>)}
+            </select>
+          </label>
+          <div className="flex gap-2">
+            {INPUT_FORMATS.map(format => (
+              <button
+                key={format}
+                onClick={() => updateSettings({ format })}
+                className={`py-1 px-4 rounded-full text-sm font-bold ${settings.format === format ? 'bg-purple-600 text-white' : 'bg-indigo-800 text-indigo-200 hover:bg-indigo-700'}`}
+              >
+                {IMAGE_FILE_FORMATS[format].label}
+              </button>
+            ))}
+          </div>
+          {IMAGE_FILE_FORMATS[settings.format].lossy && (
+            <label className="flex items-center gap-2">
+              Calidad:
+              <input
+                type="range"
+                min={50}
+                max={100}
+                value={Math.round(settings.quality * 100)}
+                onChange={(e) => updateSettings({ quality: Number(e.target.value) / 100 })}
+                className="accent-purple-500"
+              />
+              <span className="w-10 text-right">{Math.round(settings.quality * 100)}%</span>
+            </label>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.autoTrim}
+              onChange={(e) => updateSettings({ autoTrim: e.target.checked })}
+              className="accent-purple-500"
+            />
+            Recortar bordes al cargar
+          </label>
+        </div>
+
+        {notice && <p className="text-sm text-indigo-300">{notice}</p>}
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onCancel} className="py-2 px-5 rounded-full bg-indigo-800 text-indigo-200 font-bold hover:bg-indigo-700">
+            Cancelar
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!preview || isProcessing}
+            className="py-2 px-5 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Usar esta imagen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InputPreprocessDialog;
@@ -0,0 +1,203 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  listLightingPresets,
+  saveLightingPreset,
+  deleteLightingPreset,
+  setLightingPresetThumbnail,
+  createPresetPack,
+  parsePresetPack,
+  importPresetPack,
+} from '../services/lightingPresets';
+import { listHistoryEntries, subscribeToHistory } from '../services/historyStore';
+import { createThumbnail } from '../services/imageUtils';
+import { LIGHTING_TYPE_LABELS, COLOR_TEMPERATURE_LABELS, EXPOSURE_COMPENSATION_LABELS, CONTRAST_ENHANCEMENT_LABELS } from '../constants';
+import { LightingConfig, LightingPreset, RenderHistoryEntry } from '../types';
+
+interface LightingPresetsPanelProps {
+  currentConfig: LightingConfig;
+  // Render used as the thumbnail of a newly saved preset, when there is one
+  currentRenderUrl: string | null;
+  onApply: (config: LightingConfig) => void;
+}
+
+const THUMBNAIL_SIZE = 320;
+
+const PLACEHOLDER_GRADIENTS: Record<LightingConfig['lightingType'], string> = {
+  day: 'from-sky-300 to-amber-100',
+  sunset: 'from-orange-400 to-purple-700',
+  night: 'from-indigo-900 to-blue-600',
+};
+
+const LightingPresetsPanel: React.FC<LightingPresetsPanelProps> = ({ currentConfig, currentRenderUrl, onApply }) => {
+  // Bumped after every storage write so the list re-reads localStorage
+  const [revision, setRevision] = useState<number>(0);
+  const [historyEntries, setHistoryEntries] = useState<RenderHistoryEntry[]>([]);
+  const [newPresetName, setNewPresetName] = useState<string>('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const packInputRef = useRef<HTMLInputElement>(null);
+
+  const presets = useMemo(() => listLightingPresets(), [revision]);
+  const customPresets = presets.filter(preset => !preset.builtIn);
+
+  useEffect(() => {
+    const loadEntries = () => listHistoryEntries()
+      .then(setHistoryEntries)
+      .catch(err => console.error('Error loading render history:', err));
+    loadEntries();
+    return subscribeToHistory(loadEntries);
+  }, []);
+
+  // Thumbnails make presets large; a full localStorage is reported instead of failing silently
+  const runStorageWrite = useCallback((write: () => void, successText?: string) => {
+    try {
+      write();
+      setRevision(current => current + 1);
+      setMessage(successText ? { text: successText, isError: false } : null);
+    } catch (err: any) {
+      setMessage({ text: err.message || 'Error desconocido', isError: true });
+    }
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    let thumbnail: string | null = null;
+    try {
+      if (currentRenderUrl) thumbnail = await createThumbnail(currentRenderUrl, THUMBNAIL_SIZE);
+    } catch (err) {
+      console.warn('Preset thumbnail could not be created:', err);
+    }
+    runStorageWrite(() => {
+      saveLightingPreset(newPresetName, currentConfig, thumbnail);
+      setNewPresetName('');
+    }, `Preset "${newPresetName.trim()}" guardado.`);
+  }, [newPresetName, currentConfig, currentRenderUrl, runStorageWrite]);
+
+  const handleThumbnailFromHistory = useCallback(async (preset: LightingPreset, entryId: string) => {
+    const entry = historyEntries.find(candidate => String(candidate.id) === entryId);
+    if (!entry) return;
+    try {
+      const thumbnail = await createThumbnail(entry.renderUrl, THUMBNAIL_SIZE);
+      runStorageWrite(() => setLightingPresetThumbnail(preset.id, thumbnail));
+    } catch (err: any) {
+      setMessage({ text: `No se pudo crear la miniatura: ${err.message || 'Error desconocido'}`, isError: true });
+    }
+  }, [historyEntries, runStorageWrite]);
+
+  const handleExportPack = useCallback(() => {
+    const json = JSON.stringify(createPresetPack(customPresets), null, 2);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'lighting_presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [customPresets]);
+
+  const handleImportPack = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const pack = parsePresetPack(JSON.parse(await file.text()));
+      runStorageWrite(() => importPresetPack(pack), `${pack.presets.length} ${pack.presets.length === 1 ? 'preset importado' : 'presets importados'}.`);
+    } catch (err: any) {
+      setMessage({ text: `No se pudo importar el paquete: ${err.message || 'Archivo JSON corrupto.'}`, isError: true });
+    }
+  }, [runStorageWrite]);
+
+  return (
+    <div className="p-4 bg-indigo-900/40 rounded-lg border border-indigo-700 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="text-xl font-semibold text-indigo-100">Presets de Iluminación</h3>
+        <div className="flex gap-2">
+          <input type="file" accept=".json" ref={packInputRef} onChange={handleImportPack} className="hidden" />
+          <button
+            onClick={() => packInputRef.current?.click()}
+            className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700"
+          >
+            Importar paquete
+          </button>
+          <button
+            onClick={handleExportPack}
+            disabled={customPresets.length === 0}
+            className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Exportar mis presets
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {presets.map(preset => (
+          <div key={preset.id} className="border border-indigo-600 rounded-lg overflow-hidden bg-indigo-900/40 flex flex-col">
+            {preset.thumbnail ? (
+              <img src={preset.thumbnail} alt={preset.name} className="w-full h-24 object-cover" />
+            ) : (
+              <div className={`w-full h-24 bg-gradient-to-br ${PLACEHOLDER_GRADIENTS[preset.config.lightingType]}`} />
+            )}
+            <div className="p-2 flex-grow space-y-1">
+              <p className="text-sm font-semibold text-indigo-100">{preset.name}</p>
+              <p className="text-xs text-indigo-300">
+                {LIGHTING_TYPE_LABELS[preset.config.lightingType]} · {COLOR_TEMPERATURE_LABELS[preset.config.colorTemperature]} · {EXPOSURE_COMPENSATION_LABELS[preset.config.exposureCompensation]} · {CONTRAST_ENHANCEMENT_LABELS[preset.config.contrastEnhancement]}
+              </p>
+              {!preset.builtIn && historyEntries.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => handleThumbnailFromHistory(preset, e.target.value)}
+                  className="w-full p-1 rounded bg-indigo-900 border border-indigo-700 text-xs text-indigo-200 outline-none"
+                >
+                  <option value="">Miniatura desde el historial…</option>
+                  {historyEntries.map(entry => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.sceneName} · {new Date(entry.createdAt).toLocaleDateString('es')}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="flex gap-1 p-2 pt-0">
+              <button
+                onClick={() => onApply(preset.config)}
+                className="flex-1 py-1 px-2 rounded-full bg-purple-600 text-white text-xs font-bold hover:bg-purple-700"
+              >
+                Aplicar
+              </button>
+              {!preset.builtIn && (
+                <button
+                  onClick={() => runStorageWrite(() => deleteLightingPreset(preset.id))}
+                  aria-label={`Eliminar ${preset.name}`}
+                  className="py-1 px-2 rounded-full bg-red-600 text-white text-xs font-bold hover:bg-red-700"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={newPresetName}
+          onChange={(e) => setNewPresetName(e.target.value)}
+          placeholder="Nombre del preset (ej.: Gala nocturna azul)"
+          className="flex-1 p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!newPresetName.trim()}
+          className="py-2 px-5 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Guardar iluminación actual
+        </button>
+      </div>
+      {currentRenderUrl && <p className="text-xs text-indigo-400">El render actual se usará como miniatura del nuevo preset.</p>}
+
+      {message && <p className={`text-sm ${message.isError ? 'text-red-300' : 'text-green-300'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default LightingPresetsPanel;
@@ -0,0 +1,268 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import DownloadDialog from './DownloadDialog';
+import { generateSingleRender } from '../services/renderService';
+import { runWithConcurrency } from '../services/renderQueue';
+import { validateRender } from '../services/renderValidation';
+import { composeComparisonSheet } from '../services/imageComposite';
+import { saveRenderToHistory } from '../services/historyStore';
+import { describeLightingForFilename } from '../services/imageExport';
+import { getRenderLighting } from '../services/renderVersions';
+import { LIGHTING_TYPE_LABELS, COLOR_TEMPERATURE_LABELS } from '../constants';
+import { LightingConfig, LightingType, MaterialAssignment, RenderFileMetadata, RenderProvider, RenderValidation } from '../types';
+
+interface LightingSweepPanelProps {
+  provider: RenderProvider;
+  sketchupImage: File;
+  sceneDescription: string;
+  referenceImages: File[];
+  materials: MaterialAssignment[];
+  baseLighting: LightingConfig; // Exposure, contrast and instructions are kept from here
+  hasApiKey: boolean;
+}
+
+interface SweepCell {
+  lighting: LightingConfig;
+  label: string;
+  url: string | null;
+  error: string | null;
+  validation: RenderValidation | null;
+  metadata: RenderFileMetadata | null; // Embedded when the render is downloaded
+  isLoading: boolean;
+}
+
+// Image offered in the download dialog: one cell or the whole comparison sheet
+interface SweepDownload {
+  url: string;
+  metadata: RenderFileMetadata;
+  lightingField: string;
+}
+
+const SWEEP_CONCURRENCY = 2;
+
+const LIGHTING_TYPES = Object.values(LightingType);
+const COLOR_TEMPERATURES = Object.keys(COLOR_TEMPERATURE_LABELS) as LightingConfig['colorTemperature'][];
+
+const LightingSweepPanel: React.FC<LightingSweepPanelProps> = ({
+  provider,
+  sketchupImage,
+  sceneDescription,
+  referenceImages,
+  materials,
+  baseLighting,
+  hasApiKey,
+}) => {
+  const [selectedTypes, setSelectedTypes] = useState<LightingType[]>(LIGHTING_TYPES);
+  // Empty selection means "use the color temperature from the main lighting settings"
+  const [selectedTemperatures, setSelectedTemperatures] = useState<LightingConfig['colorTemperature'][]>([]);
+  const [cells, setCells] = useState<SweepCell[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [download, setDownload] = useState<SweepDownload | null>(null);
+  const sweepAbortRef = useRef<AbortController | null>(null);
+
+  // A sweep belongs to the scene it started with; stop it when the scene changes or the panel closes
+  useEffect(() => () => sweepAbortRef.current?.abort(), [sketchupImage, sceneDescription]);
+
+  // Renders of the previous scene would be downloaded under the new scene's name
+  useEffect(() => {
+    setCells([]);
+    setDownload(null);
+  }, [sketchupImage]);
+
+  const toggleType = useCallback((type: LightingType) => {
+    setSelectedTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  }, []);
+
+  const toggleTemperature = useCallback((temperature: LightingConfig['colorTemperature']) => {
+    setSelectedTemperatures(prev => prev.includes(temperature) ? prev.filter(t => t !== temperature) : [...prev, temperature]);
+  }, []);
+
+  const temperaturesToSweep = useMemo(
+    () => (selectedTemperatures.length > 0 ? selectedTemperatures : [baseLighting.colorTemperature]),
+    [selectedTemperatures, baseLighting.colorTemperature]
+  );
+  const matrixSize = selectedTypes.length * temperaturesToSweep.length;
+
+  const handleRunSweep = useCallback(async () => {
+    if (selectedTypes.length === 0) {
+      setError('Selecciona al menos un tipo de iluminación.');
+      return;
+    }
+    // Keep the order of the matrix stable regardless of click order
+    const types = LIGHTING_TYPES.filter(type => selectedTypes.includes(type));
+    const temperatures = COLOR_TEMPERATURES.filter(t => temperaturesToSweep.includes(t));
+    const initialCells: SweepCell[] = types.flatMap(lightingType => temperatures.map(colorTemperature => ({
+      lighting: { ...baseLighting, lightingType, colorTemperature },
+      label: `${LIGHTING_TYPE_LABELS[lightingType]} · ${COLOR_TEMPERATURE_LABELS[colorTemperature]}`,
+      url: null,
+      error: null,
+      validation: null,
+      metadata: null,
+      isLoading: true,
+    })));
+
+    sweepAbortRef.current?.abort();
+    const controller = new AbortController();
+    sweepAbortRef.current = controller;
+    setError(null);
+    setCells(initialCells);
+    setIsRunning(true);
+
+    await runWithConcurrency(initialCells, SWEEP_CONCURRENCY, async (cell, index) => {
+      if (controller.signal.aborted) return;
+      const result = await generateSingleRender(provider, sketchupImage, sceneDescription, referenceImages, cell.lighting, () => {}, { validate: validateRender, materials, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const metadata: RenderFileMetadata = {
+        prompt: result.prompt ?? '',
+        modelName: provider.modelName,
+        lighting: getRenderLighting(result, cell.lighting),
+        createdAt: new Date().toISOString(),
+      };
+      setCells(prev => prev.map((c, i) => (
+        i === index ? { ...c, url: result.url, error: result.error, validation: result.validation ?? null, metadata, isLoading: false } : c
+      )));
+      saveRenderToHistory(provider, sketchupImage, sceneDescription, referenceImages, cell.lighting, result)
+        .catch(err => console.error('Error saving sweep render to history:', err));
+    });
+    if (sweepAbortRef.current !== controller) return;
+    sweepAbortRef.current = null;
+    if (controller.signal.aborted) {
+      setCells(prev => prev.map(c => (c.isLoading ? { ...c, error: 'Cancelado.', isLoading: false } : c)));
+    }
+    setIsRunning(false);
+  }, [selectedTypes, temperaturesToSweep, baseLighting, provider, sketchupImage, sceneDescription, referenceImages, materials]);
+
+  const handleCancelSweep = useCallback(() => {
+    sweepAbortRef.current?.abort();
+  }, []);
+
+  const handleDownloadComparison = useCallback(async () => {
+    const finished = cells.filter(cell => cell.url);
+    // One column per swept temperature, or a single row when only lighting types vary;
+    // failed cells stay in as placeholders so every label keeps its row and column
+    const temperatureCount = new Set(cells.map(cell => cell.lighting.colorTemperature)).size;
+    try {
+      const sheetUrl = await composeComparisonSheet(
+        cells.map(cell => ({ url: cell.url, label: cell.label })),
+        temperatureCount > 1 ? temperatureCount : cells.length
+      );
+      setDownload({
+        url: sheetUrl,
+        metadata: {
+          prompt: `Comparación de iluminaciones: ${finished.map(cell => cell.label).join(', ')}`,
+          modelName: provider.modelName,
+          lighting: baseLighting,
+          createdAt: new Date().toISOString(),
+        },
+        lightingField: 'comparacion',
+      });
+    } catch (err: any) {
+      setError(`Error al crear la comparación: ${err.message || 'Error desconocido'}`);
+    }
+  }, [cells, provider, baseLighting]);
+
+  const gridColumns = temperaturesToSweep.length > 1 ? 'sm:grid-cols-2 lg:grid-cols-4' : 'sm:grid-cols-3';
+
+  return (
+    <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
+      <h2 className="text-2xl font-bold text-indigo-100">Comparar Iluminaciones</h2>
+      <p className="text-indigo-200">
+        Renderiza la misma escena con varias iluminaciones para compararlas lado a lado. La exposición, el contraste y las instrucciones avanzadas se toman de la configuración actual.
+      </p>
+
+      <div>
+        <p className="text-lg font-semibold text-indigo-200 mb-2">Tipos de Iluminación</p>
+        <div className="flex flex-wrap gap-4">
+          {LIGHTING_TYPES.map(type => (
+            <label key={type} className="flex items-center gap-2 text-indigo-100 cursor-pointer">
+              <input type="checkbox" checked={selectedTypes.includes(type)} onChange={() => toggleType(type)} disabled={isRunning} />
+              {LIGHTING_TYPE_LABELS[type]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-lg font-semibold text-indigo-200 mb-2">Temperaturas de Color (Opcional)</p>
+        <div className="flex flex-wrap gap-4">
+          {COLOR_TEMPERATURES.map(temperature => (
+            <label key={temperature} className="flex items-center gap-2 text-indigo-100 cursor-pointer">
+              <input type="checkbox" checked={selectedTemperatures.includes(temperature)} onChange={() => toggleTemperature(temperature)} disabled={isRunning} />
+              {COLOR_TEMPERATURE_LABELS[temperature]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={handleRunSweep}
+        disabled={isRunning || !hasApiKey || matrixSize === 0}
+        className="w-full py-3 px-6 rounded-full bg-gradient-to-r from-amber-500 to-indigo-600 text-white text-lg font-bold shadow-md hover:from-amber-600 hover:to-indigo-700 transition duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isRunning ? 'Generando Comparación...' : `Generar Comparación (${matrixSize} renders)`}
+      </button>
+
+      {isRunning && (
+        <div className="text-center">
+          <button
+            onClick={handleCancelSweep}
+            className="py-1 px-5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700"
+          >
+            Cancelar
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-300 text-center">{error}</p>}
+
+      {cells.length > 0 && (
+        <div className={`grid grid-cols-1 ${gridColumns} gap-4`}>
+          {cells.map(cell => (
+            <div key={cell.label} className="border border-indigo-600 rounded-lg overflow-hidden shadow-md bg-indigo-900/40">
+              {cell.isLoading ? (
+                <div className="h-40 flex items-center justify-center"><LoadingSpinner /></div>
+              ) : cell.url ? (
+                <img src={cell.url} alt={cell.label} className="w-full h-auto object-cover" />
+              ) : (
+                <div className="h-40 flex items-center justify-center p-2 text-red-300 text-xs text-center">{cell.error || 'Error desconocido'}</div>
+              )}
+              <p className="text-sm font-semibold text-indigo-100 p-2 text-center">{cell.label}</p>
+              {cell.url && cell.metadata && (
+                <button
+                  onClick={() => setDownload({ url: cell.url!, metadata: cell.metadata!, lightingField: describeLightingForFilename(cell.metadata!.lighting) })}
+                  className="block mx-auto mb-2 text-xs font-bold text-purple-200 hover:text-white underline"
+                >
+                  Descargar
+                </button>
+              )}
+              {cell.validation && !cell.validation.passed && (
+                <p className="text-xs text-yellow-300 px-2 pb-2 text-center" title={cell.validation.issues.join(' ')}>⚠ No pasó la validación</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isRunning && cells.some(cell => cell.url) && (
+        <button
+          onClick={handleDownloadComparison}
+          className="w-full py-3 px-8 bg-purple-700 text-white font-bold rounded-full shadow-lg hover:bg-purple-800 transition duration-300 ease-in-out"
+        >
+          Descargar Comparación
+        </button>
+      )}
+
+      {download && (
+        <DownloadDialog
+          renderUrl={download.url}
+          metadata={download.metadata}
+          fields={{ view: sketchupImage.name.replace(/\.[^.]+$/, ''), lighting: download.lightingField, version: '' }}
+          onClose={() => setDownload(null)}
+        />
+      )}
+    </section>
+  );
+};
+
+export default LightingSweepPanel;
@@ -0,0 +1,180 @@
+import React, { useState, useCallback, useRef } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  isBusy: boolean;
+  // Mask is a PNG data URL at the image's native size: white = area to edit, black = keep
+  onApply: (maskUrl: string, instruction: string) => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const MIN_BRUSH = 5;
+const MAX_BRUSH = 120;
+const DEFAULT_BRUSH = 40;
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, isBusy, onApply, onCancel, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState<number>(DEFAULT_BRUSH);
+  const [isErasing, setIsErasing] = useState<boolean>(false);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+  const [instruction, setInstruction] = useState<string>('');
+
+  // The canvas works at the render's native resolution; CSS scales it over the image
+  const handleImageLoad = useCallback((event: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = event.currentTarget.naturalWidth;
+    canvas.height = event.currentTarget.naturalHeight;
+    setHasMask(false);
+  }, []);
+
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const paintTo = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = event.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(event);
+    const from = lastPointRef.current ?? { x, y };
+    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPointRef.current = { x, y };
+    if (!isErasing) setHasMask(true);
+  }, [brushSize, isErasing]);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isBusy) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    paintTo(event);
+  }, [isBusy, paintTo]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) paintTo(event);
+  }, [paintTo]);
+
+  const handlePointerUp = useCallback(() => {
+    lastPointRef.current = null;
+  }, []);
+
+  const handleClear = useCallback(() => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  }, []);
+
+  // Painted strokes become white on black, the convention expected by the edit model
+  const handleApply = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const painted = document.createElement('canvas');
+    painted.width = canvas.width;
+    painted.height = canvas.height;
+    const paintedCtx = painted.getContext('2d');
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const maskCtx = mask.getContext('2d');
+    if (!paintedCtx || !maskCtx) return;
+    paintedCtx.fillStyle = '#ffffff';
+    paintedCtx.fillRect(0, 0, painted.width, painted.height);
+    paintedCtx.globalCompositeOperation = 'destination-in';
+    paintedCtx.drawImage(canvas, 0, 0);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    maskCtx.drawImage(painted, 0, 0);
+    onApply(mask.toDataURL('image/png'), instruction.trim());
+  }, [instruction, onApply]);
+
+  return (
+    <div className="mt-6 p-4 bg-indigo-900/40 rounded-lg border border-indigo-600 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-indigo-100">Editar una Región</h3>
+        <button onClick={onClose} disabled={isBusy} className="text-indigo-300 hover:text-white disabled:opacity-50">✕</button>
+      </div>
+      <p className="text-sm text-indigo-200">
+        Pinta sobre la zona que quieres cambiar y describe el cambio. El resto del render se conserva tal cual.
+      </p>
+
+      <div className="relative">
+        <img src={imageUrl} alt="Render a editar" onLoad={handleImageLoad} className="w-full h-auto rounded-md select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          className={`absolute inset-0 w-full h-full opacity-50 touch-none ${isBusy ? 'cursor-wait' : 'cursor-crosshair'}`}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-indigo-200">
+        <label className="flex items-center gap-2">
+          Pincel:
+          <input
+            type="range"
+            min={MIN_BRUSH}
+            max={MAX_BRUSH}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="accent-purple-500"
+          />
+        </label>
+        <button
+          onClick={() => setIsErasing(erasing => !erasing)}
+          className={`py-1 px-4 rounded-full text-sm font-bold ${isErasing ? 'bg-purple-600 text-white' : 'bg-indigo-800 text-indigo-200 hover:bg-indigo-700'}`}
+        >
+          {isErasing ? 'Borrador activo' : 'Borrador'}
+        </button>
+        <button onClick={handleClear} disabled={isBusy || !hasMask} className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700 disabled:opacity-50">
+          Limpiar máscara
+        </button>
+      </div>
+
+      <textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        rows={3}
+        disabled={isBusy}
+        placeholder="Ej.: Reemplaza estos centros de mesa por orquídeas blancas altas."
+        className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200 resize-y"
+      ></textarea>
+
+      {isBusy ? (
+        <div className="text-center">
+          <LoadingSpinner />
+          <button onClick={onCancel} className="mt-2 py-1 px-5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700">
+            Cancelar
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleApply}
+          disabled={!hasMask || !instruction.trim()}
+          className="w-full py-3 px-6 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Aplicar Edición
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,153 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { saveLibraryItem, deleteLibraryItem, matchesLibraryQuery, parseTags } from '../services/materialLibrary';
+import { MaterialLibraryItem } from '../types';
+
+interface MaterialLibraryPanelProps {
+  items: MaterialLibraryItem[];
+}
+
+const MaterialLibraryPanel: React.FC<MaterialLibraryPanelProps> = ({ items }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [tags, setTags] = useState<string>('');
+  const [image, setImage] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  // One object URL per stored swatch, revoked when the list changes
+  const thumbnailUrls = useMemo(() => new Map(items.map(item => [item.id, URL.createObjectURL(item.image)])), [items]);
+  useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+  const filteredItems = useMemo(() => items.filter(item => matchesLibraryQuery(item, searchQuery)), [items, searchQuery]);
+
+  const handleAddItem = useCallback(async () => {
+    if (!image || !name.trim()) return;
+    if (items.some(item => item.name.toLowerCase() === name.trim().toLowerCase())) {
+      setError(`Ya existe un material llamado "${name.trim()}". Los nombres deben ser únicos porque se usan en el prompt.`);
+      return;
+    }
+    try {
+      await saveLibraryItem({ name: name.trim(), description: description.trim(), tags: parseTags(tags), image, createdAt: Date.now() });
+      setName('');
+      setDescription('');
+      setTags('');
+      setImage(null);
+      if (imageInputRef.current) imageInputRef.current.value = '';
+      setError(null);
+    } catch (err: any) {
+      setError(`No se pudo guardar el material: ${err.message || 'Error desconocido'}`);
+    }
+  }, [image, name, description, tags, items]);
+
+  const handleDelete = useCallback(async (item: MaterialLibraryItem) => {
+    if (item.id === undefined) return;
+    try {
+      await deleteLibraryItem(item.id);
+    } catch (err: any) {
+      setError(`No se pudo eliminar el material: ${err.message || 'Error desconocido'}`);
+    }
+  }, []);
+
+  return (
+    <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex justify-between items-center text-left">
+        <h2 className="text-2xl font-bold text-indigo-100">Biblioteca de Materiales ({items.length})</h2>
+        <span className="text-indigo-300">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <p className="text-indigo-200">
+            Guarda manteles, sillas, arreglos florales y otros materiales que reutilizas entre eventos. Asígnalos a objetos de la escena en la tabla de análisis: se envían como muestra y se nombran en el prompt.
+          </p>
+
+          <div className="p-4 bg-indigo-900/40 rounded-lg border border-indigo-700 space-y-3">
+            <h3 className="text-lg font-semibold text-indigo-100">Nuevo material</h3>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Nombre (ej.: Cojín Chiavari marfil)"
+              className="w-full p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              placeholder="Descripción para el prompt (ej.: terciopelo marfil con pespunte dorado, acabado satinado)"
+              className="w-full p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none resize-y"
+            ></textarea>
+            <input
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Etiquetas separadas por comas (ej.: mantelería, boda, blanco)"
+              className="w-full p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+            />
+            <div className="flex flex-col sm:flex-row gap-3 items-center">
+              <input
+                type="file"
+                accept="image/png, image/jpeg, image/webp"
+                ref={imageInputRef}
+                onChange={(e) => setImage(e.target.files?.[0] ?? null)}
+                className="flex-1 text-sm text-indigo-200"
+              />
+              <button
+                onClick={handleAddItem}
+                disabled={!image || !name.trim()}
+                className="py-2 px-5 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Guardar en la Biblioteca
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-red-300">{error}</p>}
+
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Buscar por nombre, descripción o etiqueta..."
+            className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200"
+          />
+
+          {filteredItems.length === 0 ? (
+            <div className="p-6 border-2 border-dashed border-indigo-600 rounded-md text-indigo-400 text-center">
+              <p>{items.length === 0 ? 'La biblioteca está vacía.' : 'Ningún material coincide con la búsqueda.'}</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {filteredItems.map(item => (
+                <div key={item.id} className="border border-indigo-600 rounded-lg overflow-hidden bg-indigo-900/40 flex flex-col">
+                  <img src={thumbnailUrls.get(item.id)} alt={item.name} className="w-full h-28 object-cover" />
+                  <div className="p-2 flex-grow space-y-1">
+                    <p className="text-sm font-semibold text-indigo-100">{item.name}</p>
+                    {item.description && <p className="text-xs text-indigo-300 line-clamp-3">{item.description}</p>}
+                    {item.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {item.tags.map(tag => (
+                          <span key={tag} className="text-xs px-2 rounded-full bg-indigo-700 text-indigo-100">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(item)}
+                    className="m-2 py-1 px-3 rounded-full bg-red-600 text-white text-xs font-bold hover:bg-red-700"
+                  >
+                    Eliminar
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default MaterialLibraryPanel;
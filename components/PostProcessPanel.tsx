@@ -0,0 +1,213 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { DEFAULT_POST_PROCESS_SETTINGS, NEUTRAL_GRADING, gradingFromLighting } from '../services/postProcessing';
+import { postProcessRender, getPostProcessSize, MAX_OUTPUT_LONG_SIDE } from '../services/postProcessingClient';
+import { isAbortError } from '../services/renderErrors';
+import { loadImage } from '../services/imageUtils';
+import { ColorGrading, LightingConfig, PostProcessSettings, PostProcessStage } from '../types';
+
+interface PostProcessPanelProps {
+  renderUrl: string;
+  lighting: LightingConfig;
+  // Opens the download dialog for the processed image
+  onDownload: (url: string) => void;
+}
+
+const STAGE_LABELS: Record<PostProcessStage, string> = {
+  grading: 'Ajuste de color',
+  upscale: 'Escalado',
+  sharpen: 'Enfoque',
+  encode: 'Codificando PNG',
+};
+
+const UPSCALE_FACTORS: PostProcessSettings['upscaleFactor'][] = [1, 2, 4];
+
+const GRADING_SLIDERS: { key: keyof ColorGrading; label: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+  { key: 'exposure', label: 'Exposición', min: -2, max: 2, step: 0.1, format: value => `${value > 0 ? '+' : ''}${value.toFixed(1)} EV` },
+  { key: 'temperature', label: 'Balance de blancos', min: -1, max: 1, step: 0.05, format: value => (value === 0 ? 'Neutro' : value > 0 ? `Cálido ${Math.round(value * 100)}%` : `Frío ${Math.round(-value * 100)}%`) },
+  { key: 'contrast', label: 'Curva de contraste', min: -1, max: 1, step: 0.05, format: value => `${value > 0 ? '+' : ''}${Math.round(value * 100)}%` },
+];
+
+const PostProcessPanel: React.FC<PostProcessPanelProps> = ({ renderUrl, lighting, onDownload }) => {
+  const [settings, setSettings] = useState<PostProcessSettings>(DEFAULT_POST_PROCESS_SETTINGS);
+  const [rawSize, setRawSize] = useState<{ width: number; height: number } | null>(null);
+  const [processed, setProcessed] = useState<{ url: string; width: number; height: number } | null>(null);
+  const [progress, setProgress] = useState<{ stage: PostProcessStage; fraction: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // A new render invalidates the processed copy and any run still going
+  useEffect(() => {
+    let cancelled = false;
+    setProcessed(null);
+    setError(null);
+    loadImage(renderUrl)
+      .then(image => {
+        if (!cancelled) setRawSize({ width: image.naturalWidth, height: image.naturalHeight });
+      })
+      .catch(() => {
+        if (!cancelled) setRawSize(null);
+      });
+    return () => {
+      cancelled = true;
+      abortRef.current?.abort();
+    };
+  }, [renderUrl]);
+
+  useEffect(() => () => {
+    if (processed) URL.revokeObjectURL(processed.url);
+  }, [processed]);
+
+  const updateGrading = useCallback((changes: Partial<ColorGrading>) => {
+    setSettings(current => ({ ...current, grading: { ...current.grading, ...changes } }));
+  }, []);
+
+  const handleProcess = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ stage: 'grading', fraction: 0 });
+    try {
+      const blob = await postProcessRender(renderUrl, settings, (stage, fraction) => setProgress({ stage, fraction }), controller.signal);
+      const image = await loadImage(URL.createObjectURL(blob));
+      setProcessed({ url: image.src, width: image.naturalWidth, height: image.naturalHeight });
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error('Error post-processing render:', err);
+        setError(`No se pudo procesar la imagen: ${err.message || 'Error desconocido'}`);
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  }, [renderUrl, settings]);
+
+  const outputSize = rawSize ? getPostProcessSize(rawSize.width, rawSize.height, settings.upscaleFactor) : null;
+  const isCapped = rawSize !== null && outputSize !== null && outputSize.width < rawSize.width * settings.upscaleFactor;
+
+  return (
+    <div className="mt-6 p-4 bg-indigo-900/40 rounded-lg border border-indigo-600 space-y-4">
+      <h3 className="text-xl font-semibold text-indigo-100">Procesado para Impresión</h3>
+      <p className="text-sm text-indigo-200">
+        Escala, enfoca y ajusta el color del render en tu navegador. El original no se modifica.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-indigo-200">
+        <span>Escalado:</span>
+        {UPSCALE_FACTORS.map(factor => (
+          <button
+            key={factor}
+            onClick={() => setSettings(current => ({ ...current, upscaleFactor: factor }))}
+            disabled={progress !== null}
+            className={`py-1 px-4 rounded-full font-bold disabled:opacity-50 ${settings.upscaleFactor === factor ? 'bg-purple-600 text-white' : 'bg-indigo-800 text-indigo-200 hover:bg-indigo-700'}`}
+          >
+            {factor}×
+          </button>
+        ))}
+        {outputSize && (
+          <span className="text-xs text-indigo-300">
+            {rawSize!.width}×{rawSize!.height} → {outputSize.width}×{outputSize.height}
+            {isCapped && ` (máximo ${MAX_OUTPUT_LONG_SIDE} px)`}
+          </span>
+        )}
+      </div>
+
+      <label className="flex items-center gap-3 text-sm text-indigo-200">
+        <span className="w-40">Enfoque</span>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={settings.sharpenAmount}
+          onChange={(e) => setSettings(current => ({ ...current, sharpenAmount: Number(e.target.value) }))}
+          disabled={progress !== null}
+          className="flex-1 accent-purple-500"
+        />
+        <span className="w-24 text-right">{settings.sharpenAmount.toFixed(1)}</span>
+      </label>
+
+      {GRADING_SLIDERS.map(slider => (
+        <label key={slider.key} className="flex items-center gap-3 text-sm text-indigo-200">
+          <span className="w-40">{slider.label}</span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={settings.grading[slider.key]}
+            onChange={(e) => updateGrading({ [slider.key]: Number(e.target.value) })}
+            disabled={progress !== null}
+            className="flex-1 accent-purple-500"
+          />
+          <span className="w-24 text-right">{slider.format(settings.grading[slider.key])}</span>
+        </label>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => updateGrading(gradingFromLighting(lighting))}
+          disabled={progress !== null}
+          className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Color según la iluminación
+        </button>
+        <button
+          onClick={() => updateGrading(NEUTRAL_GRADING)}
+          disabled={progress !== null}
+          className="py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Color neutro
+        </button>
+      </div>
+
+      {error && <p className="text-red-300 text-sm">{error}</p>}
+
+      {progress ? (
+        <div className="space-y-2 text-center">
+          <LoadingSpinner />
+          <p className="text-sm text-indigo-200">{STAGE_LABELS[progress.stage]} · {Math.round(progress.fraction * 100)}%</p>
+          <div className="w-full h-2 rounded-full bg-indigo-950 overflow-hidden">
+            <div className="h-full bg-purple-500 transition-all" style={{ width: `${progress.fraction * 100}%` }} />
+          </div>
+          <button onClick={() => abortRef.current?.abort()} className="py-1 px-5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700">
+            Cancelar
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleProcess}
+          className="w-full py-3 px-6 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700"
+        >
+          Procesar
+        </button>
+      )}
+
+      {processed && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="border border-indigo-600 rounded-md overflow-hidden">
+              <img src={renderUrl} alt="Render original" className="w-full h-auto object-cover" />
+              <p className="text-xs text-indigo-200 p-1 text-center">Original · {rawSize?.width}×{rawSize?.height}</p>
+            </div>
+            <div className="border border-indigo-600 rounded-md overflow-hidden">
+              <img src={processed.url} alt="Render procesado" className="w-full h-auto object-cover" />
+              <p className="text-xs text-indigo-200 p-1 text-center">Procesado · {processed.width}×{processed.height}</p>
+            </div>
+          </div>
+          <button
+            onClick={() => onDownload(processed.url)}
+            className="w-full py-2 px-6 rounded-full bg-purple-700 text-white font-bold hover:bg-purple-800"
+          >
+            Descargar Procesado
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostProcessPanel;
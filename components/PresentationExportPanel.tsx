@@ -0,0 +1,208 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { listHistoryEntries, subscribeToHistory } from '../services/historyStore';
+import { buildPresentationPdf, loadPresentationBranding, savePresentationBranding } from '../services/presentationPdf';
+import { blobToDataUrl } from '../services/imageUtils';
+import { LIGHTING_TYPE_LABELS } from '../constants';
+import { PresentationBranding, PresentationMetadata, RenderHistoryEntry } from '../types';
+
+const LOGO_TYPES = ['image/png', 'image/jpeg'];
+
+const inputClassName = 'w-full p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none';
+
+const PresentationExportPanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [entries, setEntries] = useState<RenderHistoryEntry[]>([]);
+  // History ids in the order they were picked, which is the page order of the PDF
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [metadata, setMetadata] = useState<PresentationMetadata>({ clientName: '', eventDate: '', venue: '' });
+  const [branding, setBranding] = useState<PresentationBranding>(loadPresentationBranding);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEntries = () => listHistoryEntries()
+      .then(loaded => {
+        setEntries(loaded);
+        // Drop selections whose history entry was deleted
+        setSelectedIds(ids => ids.filter(id => loaded.some(entry => entry.id === id)));
+      })
+      .catch(err => console.error('Error loading render history:', err));
+    loadEntries();
+    return subscribeToHistory(loadEntries);
+  }, []);
+
+  // Branding is shared by every presentation, so it is kept across sessions
+  useEffect(() => {
+    try {
+      savePresentationBranding(branding);
+    } catch (err: any) {
+      setError(`No se pudo guardar la marca: ${err.message || 'Error desconocido'}`);
+    }
+  }, [branding]);
+
+  const updateBranding = useCallback((changes: Partial<PresentationBranding>) => {
+    setBranding(current => ({ ...current, ...changes }));
+  }, []);
+
+  const handleLogoChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!LOGO_TYPES.includes(file.type)) {
+      setError('El logotipo debe ser PNG o JPEG.');
+      return;
+    }
+    updateBranding({ logoUrl: await blobToDataUrl(file) });
+    setError(null);
+  }, [updateBranding]);
+
+  const toggleEntry = useCallback((id: number) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(selected => selected !== id) : [...ids, id]));
+  }, []);
+
+  const handleExport = useCallback(async () => {
+    const slides = selectedIds
+      .map(id => entries.find(entry => entry.id === id))
+      .filter((entry): entry is RenderHistoryEntry => entry !== undefined)
+      .map(entry => ({
+        title: entry.sceneName,
+        renderUrl: entry.renderUrl,
+        sketchupImage: entry.sketchupImage,
+        lighting: entry.lighting,
+        sceneDescription: entry.sceneDescription,
+      }));
+    setIsExporting(true);
+    setError(null);
+    try {
+      const pdf = await buildPresentationPdf(metadata, branding, slides);
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement('a');
+      link.href = url;
+      const clientSlug = metadata.clientName.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+      link.download = `propuesta${clientSlug ? `_${clientSlug}` : ''}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('Error exporting presentation:', err);
+      setError(`No se pudo generar el PDF: ${err.message || 'Error desconocido'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  }, [selectedIds, entries, metadata, branding]);
+
+  return (
+    <section className="space-y-6 mt-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex justify-between items-center text-left">
+        <h2 className="text-2xl font-bold text-indigo-100">Presentación para el Cliente (PDF)</h2>
+        <span className="text-indigo-300">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <p className="text-indigo-200">
+            Elige renders del historial en el orden en que deben aparecer. Cada página incluye el render, su modelo de SketchUp, la iluminación y los materiales de la descripción.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="block text-sm text-indigo-200">
+              Cliente
+              <input
+                type="text"
+                value={metadata.clientName}
+                onChange={(e) => setMetadata(current => ({ ...current, clientName: e.target.value }))}
+                placeholder="Ej.: Boda García-López"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-indigo-200">
+              Fecha del evento
+              <input
+                type="date"
+                value={metadata.eventDate}
+                onChange={(e) => setMetadata(current => ({ ...current, eventDate: e.target.value }))}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-indigo-200">
+              Lugar
+              <input
+                type="text"
+                value={metadata.venue}
+                onChange={(e) => setMetadata(current => ({ ...current, venue: e.target.value }))}
+                placeholder="Ej.: Hacienda Los Olivos"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          </div>
+
+          <div className="p-4 bg-indigo-900/40 rounded-lg border border-indigo-700 space-y-3">
+            <h3 className="text-lg font-semibold text-indigo-100">Marca</h3>
+            <input
+              type="text"
+              value={branding.companyName}
+              onChange={(e) => updateBranding({ companyName: e.target.value })}
+              placeholder="Nombre de tu empresa"
+              className={inputClassName}
+            />
+            <div className="flex items-center gap-4">
+              {branding.logoUrl && <img src={branding.logoUrl} alt="Logotipo" className="h-12 max-w-[160px] object-contain bg-white/10 rounded" />}
+              <input type="file" accept={LOGO_TYPES.join(', ')} onChange={handleLogoChange} className="flex-1 text-sm text-indigo-200" />
+              {branding.logoUrl && (
+                <button onClick={() => updateBranding({ logoUrl: null })} className="py-1 px-3 rounded-full bg-red-600 text-white text-xs font-bold hover:bg-red-700">
+                  Quitar logotipo
+                </button>
+              )}
+            </div>
+          </div>
+
+          {entries.length === 0 ? (
+            <div className="p-6 border-2 border-dashed border-indigo-600 rounded-md text-indigo-400 text-center">
+              <p>Todavía no hay renders guardados en el historial.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {entries.map(entry => {
+                const position = entry.id === undefined ? -1 : selectedIds.indexOf(entry.id);
+                return (
+                  <button
+                    key={entry.id}
+                    onClick={() => entry.id !== undefined && toggleEntry(entry.id)}
+                    className={`relative border-2 rounded-lg overflow-hidden text-left ${position >= 0 ? 'border-purple-500' : 'border-indigo-700 opacity-70 hover:opacity-100'}`}
+                  >
+                    <img src={entry.renderUrl} alt={`Render ${entry.sceneName}`} className="w-full h-24 object-cover" />
+                    {position >= 0 && (
+                      <span className="absolute top-1 right-1 w-6 h-6 rounded-full bg-purple-600 text-white text-xs font-bold flex items-center justify-center">
+                        {position + 1}
+                      </span>
+                    )}
+                    <p className="text-xs text-indigo-100 p-1 truncate">{entry.sceneName}</p>
+                    <p className="text-xs text-indigo-300 px-1 pb-1">{LIGHTING_TYPE_LABELS[entry.lighting.lightingType]} · {new Date(entry.createdAt).toLocaleDateString('es')}</p>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {error && <p className="text-red-300">{error}</p>}
+
+          {isExporting ? (
+            <div className="text-center"><LoadingSpinner /></div>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={selectedIds.length === 0}
+              className="w-full py-3 px-6 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Exportar PDF ({selectedIds.length} {selectedIds.length === 1 ? 'render' : 'renders'})
+            </button>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PresentationExportPanel;
@@ -0,0 +1,287 @@
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { generateSingleRender } from '../services/renderService';
+import { saveRenderToHistory } from '../services/historyStore';
+import { validateRender } from '../services/renderValidation';
+import {
+  PIPELINE_TEMPLATE_IDS,
+  PROMPT_TEMPLATE_IDS,
+  PROMPT_TEMPLATE_VARIABLES,
+  listTemplateVersions,
+  getActivePromptTemplates,
+  setActiveTemplateVersion,
+  saveTemplateVersion,
+  deleteTemplateVersion,
+  listTemplatePlaceholders,
+} from '../services/promptTemplates';
+import { PROMPT_TEMPLATE_LABELS } from '../constants';
+import { LightingConfig, MaterialAssignment, PipelineTemplateId, PromptTemplateId, PromptTemplateSet, RenderProvider } from '../types';
+
+interface PromptLabPanelProps {
+  provider: RenderProvider;
+  // Scene used for A/B runs; the comparison is hidden until a scene is loaded
+  sketchupImage: File | null;
+  sceneDescription: string;
+  referenceImages: File[];
+  materials: MaterialAssignment[];
+  lighting: LightingConfig;
+  hasApiKey: boolean;
+}
+
+interface AbResult {
+  version: string;
+  isLoading: boolean;
+  url: string | null; // Render for refinement/lighting/strictLock
+  text: string | null; // Description for detection
+  error: string | null;
+}
+
+const PromptLabPanel: React.FC<PromptLabPanelProps> = ({
+  provider,
+  sketchupImage,
+  sceneDescription,
+  referenceImages,
+  materials,
+  lighting,
+  hasApiKey,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('refinement');
+  // Bumped after every storage write so lists re-read localStorage
+  const [revision, setRevision] = useState<number>(0);
+  const [selectedVersion, setSelectedVersion] = useState<string>('v1');
+  const [draftBody, setDraftBody] = useState<string>('');
+  const [draftName, setDraftName] = useState<string>('');
+  const [versionA, setVersionA] = useState<string>('v1');
+  const [versionB, setVersionB] = useState<string>('v1');
+  const [abResults, setAbResults] = useState<AbResult[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const versions = useMemo(() => listTemplateVersions(templateId), [templateId, revision]);
+  const activeVersion = useMemo(() => getActivePromptTemplates()[templateId].version, [templateId, revision]);
+
+  // Load the active version into the editor when switching template
+  useEffect(() => {
+    const active = getActivePromptTemplates()[templateId];
+    setSelectedVersion(active.version);
+    setDraftBody(active.body);
+    setVersionA(active.version);
+    setVersionB(active.version);
+    setAbResults([]);
+    setMessage(null);
+  }, [templateId]);
+
+  const handleSelectVersion = useCallback((version: string) => {
+    const template = versions.find(t => t.version === version);
+    if (!template) return;
+    setSelectedVersion(version);
+    setDraftBody(template.body);
+  }, [versions]);
+
+  const handleSaveVersion = useCallback(() => {
+    const saved = saveTemplateVersion(templateId, draftName, draftBody);
+    setRevision(r => r + 1);
+    setSelectedVersion(saved.version);
+    setDraftName('');
+    setMessage(`Guardada ${PROMPT_TEMPLATE_LABELS[templateId]} ${saved.version}.`);
+  }, [templateId, draftName, draftBody]);
+
+  const handleActivate = useCallback(() => {
+    setActiveTemplateVersion(templateId, selectedVersion);
+    setRevision(r => r + 1);
+    setMessage(`${PROMPT_TEMPLATE_LABELS[templateId]} ${selectedVersion} se usará en los próximos renders.`);
+  }, [templateId, selectedVersion]);
+
+  const handleDelete = useCallback(() => {
+    deleteTemplateVersion(templateId, selectedVersion);
+    setRevision(r => r + 1);
+    const active = getActivePromptTemplates()[templateId];
+    setSelectedVersion(active.version);
+    setDraftBody(active.body);
+    setMessage(`Eliminada la versión ${selectedVersion}.`);
+  }, [templateId, selectedVersion]);
+
+  const handleRunAbTest = useCallback(async () => {
+    if (!sketchupImage) return;
+    const pair = [versionA, versionB];
+    setAbResults(pair.map(version => ({ version, isLoading: true, url: null, text: null, error: null })));
+
+    const base = getActivePromptTemplates();
+    await Promise.all(pair.map(async (version, index) => {
+      const template = versions.find(t => t.version === version);
+      const templates: PromptTemplateSet = { ...base, [templateId]: template ?? base[templateId] };
+      let update: Partial<AbResult>;
+      if (templateId === 'detection') {
+        try {
+          update = { text: await provider.detect([sketchupImage], templates) };
+        } catch (err: any) {
+          update = { error: err.message || 'Error desconocido' };
+        }
+      } else {
+        const result = await generateSingleRender(provider, sketchupImage, sceneDescription, referenceImages, lighting, () => {}, { templates, validate: validateRender, materials });
+        update = { url: result.url, error: result.error };
+        saveRenderToHistory(provider, sketchupImage, sceneDescription, referenceImages, lighting, result)
+          .catch(err => console.error('Error saving A/B render to history:', err));
+      }
+      setAbResults(prev => prev.map((r, i) => (i === index ? { ...r, ...update, isLoading: false } : r)));
+    }));
+  }, [sketchupImage, versionA, versionB, versions, templateId, provider, sceneDescription, referenceImages, materials, lighting]);
+
+  const selectedTemplate = versions.find(t => t.version === selectedVersion);
+  const isDirty = selectedTemplate ? selectedTemplate.body !== draftBody : true;
+  const unknownPlaceholders = listTemplatePlaceholders(draftBody).filter(name => !PROMPT_TEMPLATE_VARIABLES[templateId].includes(name));
+  // Edit templates need an existing render (and a mask), so they are tried from the editor instead
+  const isPipelineTemplate = PIPELINE_TEMPLATE_IDS.includes(templateId as PipelineTemplateId);
+  const canRunAb = isPipelineTemplate && !!sketchupImage && (templateId === 'detection' || sceneDescription.trim() !== '');
+  const isAbRunning = abResults.some(r => r.isLoading);
+
+  return (
+    <section className="space-y-6 mb-8 p-6 bg-indigo-800/30 rounded-lg border border-indigo-700">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex justify-between items-center text-left">
+        <h2 className="text-2xl font-bold text-indigo-100">Prompt Lab</h2>
+        <span className="text-indigo-300">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <p className="text-indigo-200">
+            Edita y versiona las plantillas de prompt sin tocar el código. La versión activa se usa en todos los renders y queda registrada en cada resultado.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {PROMPT_TEMPLATE_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => setTemplateId(id)}
+                className={`py-1 px-4 rounded-full text-sm font-bold ${id === templateId ? 'bg-purple-600 text-white' : 'bg-indigo-900/60 text-indigo-300 hover:bg-indigo-800'}`}
+              >
+                {PROMPT_TEMPLATE_LABELS[id]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4 items-center">
+            <label htmlFor="prompt-version" className="text-lg font-medium text-indigo-200">Versión:</label>
+            <select
+              id="prompt-version"
+              value={selectedVersion}
+              onChange={(e) => handleSelectVersion(e.target.value)}
+              className="flex-1 p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+            >
+              {versions.map(t => (
+                <option key={t.version} value={t.version}>
+                  {t.version} · {t.name}{t.version === activeVersion ? ' (activa)' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleActivate}
+              disabled={selectedVersion === activeVersion}
+              className="py-2 px-5 rounded-full bg-green-600 text-white font-bold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Usar como Activa
+            </button>
+            {selectedTemplate && !selectedTemplate.builtIn && (
+              <button onClick={handleDelete} className="py-2 px-5 rounded-full bg-red-600 text-white font-bold hover:bg-red-700">
+                Eliminar
+              </button>
+            )}
+          </div>
+
+          <textarea
+            value={draftBody}
+            onChange={(e) => setDraftBody(e.target.value)}
+            rows={12}
+            className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white font-mono text-xs focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200 resize-y"
+          ></textarea>
+
+          <p className="text-sm text-indigo-300">
+            Variables disponibles: {PROMPT_TEMPLATE_VARIABLES[templateId].length > 0
+              ? PROMPT_TEMPLATE_VARIABLES[templateId].map(name => `{{${name}}}`).join(', ')
+              : 'ninguna'}
+          </p>
+          {unknownPlaceholders.length > 0 && (
+            <p className="text-sm text-yellow-300">
+              Variables desconocidas (se reemplazarán por texto vacío): {unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <input
+              type="text"
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              placeholder="Nombre de la nueva versión (opcional)"
+              className="flex-1 p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 outline-none"
+            />
+            <button
+              onClick={handleSaveVersion}
+              disabled={!isDirty || !draftBody.trim()}
+              className="py-2 px-5 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Guardar como Nueva Versión
+            </button>
+          </div>
+
+          {message && <p className="text-sm text-green-300">{message}</p>}
+
+          <div className="pt-6 border-t border-indigo-700 space-y-4">
+            <h3 className="text-xl font-semibold text-indigo-100">Comparación A/B</h3>
+            {!isPipelineTemplate ? (
+              <p className="text-indigo-300 text-sm">Esta plantilla se aplica al editar un render existente; actívala y pruébala desde el editor del render.</p>
+            ) : !canRunAb ? (
+              <p className="text-indigo-300 text-sm">Carga una escena (y su descripción) para comparar dos versiones sobre ella.</p>
+            ) : (
+              <>
+                <div className="flex flex-col sm:flex-row gap-4 items-center">
+                  {[{ label: 'A', value: versionA, set: setVersionA }, { label: 'B', value: versionB, set: setVersionB }].map(option => (
+                    <label key={option.label} className="flex items-center gap-2 text-indigo-200">
+                      {option.label}:
+                      <select
+                        value={option.value}
+                        onChange={(e) => option.set(e.target.value)}
+                        disabled={isAbRunning}
+                        className="p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white outline-none"
+                      >
+                        {versions.map(t => <option key={t.version} value={t.version}>{t.version} · {t.name}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                  <button
+                    onClick={handleRunAbTest}
+                    disabled={isAbRunning || !hasApiKey || versionA === versionB}
+                    className="flex-1 py-2 px-5 rounded-full bg-blue-600 text-white font-bold hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Comparar A/B
+                  </button>
+                </div>
+                {abResults.length > 0 && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {abResults.map((result, index) => (
+                      <div key={index} className="border border-indigo-600 rounded-lg overflow-hidden bg-indigo-900/40">
+                        {result.isLoading ? (
+                          <LoadingSpinner />
+                        ) : result.url ? (
+                          <img src={result.url} alt={`Versión ${result.version}`} className="w-full h-auto object-cover" />
+                        ) : result.text ? (
+                          <pre className="p-3 text-xs text-indigo-100 whitespace-pre-wrap max-h-80 overflow-y-auto">{result.text}</pre>
+                        ) : (
+                          <p className="p-3 text-xs text-red-300">{result.error || 'Error desconocido'}</p>
+                        )}
+                        <p className="text-sm font-semibold text-indigo-100 p-2 text-center">
+                          {index === 0 ? 'A' : 'B'} · {PROMPT_TEMPLATE_LABELS[templateId]} {result.version}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default PromptLabPanel;
@@ -0,0 +1,121 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import LoadingSpinner from './LoadingSpinner';
+import { getVersionLineage } from '../services/renderVersions';
+import { RenderVersion } from '../types';
+
+interface RenderVersionChainProps {
+  versions: RenderVersion[];
+  activeVersionId: string;
+  isBusy: boolean;
+  canRefine: boolean;
+  onSelect: (id: string) => void;
+  // Refines the active version; selecting an older version first creates a branch
+  onRefine: (instruction: string) => void;
+  onCancel: () => void;
+}
+
+const RenderVersionChain: React.FC<RenderVersionChainProps> = ({
+  versions,
+  activeVersionId,
+  isBusy,
+  canRefine,
+  onSelect,
+  onRefine,
+  onCancel,
+}) => {
+  const [instruction, setInstruction] = useState<string>('');
+  const [compareId, setCompareId] = useState<string>('');
+
+  const activeVersion = versions.find(version => version.id === activeVersionId);
+  const compareVersion = versions.find(version => version.id === compareId && version.id !== activeVersionId);
+  const lineage = useMemo(() => getVersionLineage(versions, activeVersionId), [versions, activeVersionId]);
+  const labelById = useMemo(() => new Map(versions.map(version => [version.id, version.label])), [versions]);
+
+  const handleRefine = useCallback(() => {
+    onRefine(instruction.trim());
+    setInstruction('');
+  }, [instruction, onRefine]);
+
+  if (!activeVersion) return null;
+
+  return (
+    <div className="mt-6 p-4 bg-indigo-900/40 rounded-lg border border-indigo-600 space-y-4">
+      <h3 className="text-xl font-semibold text-indigo-100">Versiones</h3>
+
+      <div className="flex flex-wrap gap-2">
+        {versions.map(version => (
+          <button
+            key={version.id}
+            onClick={() => onSelect(version.id)}
+            disabled={isBusy}
+            title={version.instruction ?? 'Render original'}
+            className={`py-1 px-3 rounded-full text-sm font-bold disabled:opacity-50 ${version.id === activeVersionId ? 'bg-purple-600 text-white' : 'bg-indigo-800 text-indigo-200 hover:bg-indigo-700'}`}
+          >
+            {version.label}
+            {version.parentId && <span className="font-normal text-xs opacity-75"> ← {labelById.get(version.parentId)}</span>}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-indigo-300">
+        Cadena: {lineage.map(version => version.label).join(' → ')}
+        {activeVersion.instruction && <> · “{activeVersion.instruction}”</>}
+      </p>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-indigo-200 text-sm">
+            Comparar {activeVersion.label} con:
+            <select
+              value={compareVersion?.id ?? ''}
+              onChange={(e) => setCompareId(e.target.value)}
+              className="p-1 rounded-lg bg-indigo-900 border border-indigo-700 text-white outline-none"
+            >
+              <option value="">—</option>
+              {versions.filter(version => version.id !== activeVersionId).map(version => (
+                <option key={version.id} value={version.id}>{version.label}</option>
+              ))}
+            </select>
+          </label>
+          {compareVersion && (
+            <div className="grid grid-cols-2 gap-2">
+              {[compareVersion, activeVersion].map(version => (
+                <div key={version.id} className="border border-indigo-600 rounded-md overflow-hidden">
+                  <img src={version.result.url!} alt={`Versión ${version.label}`} className="w-full h-auto object-cover" />
+                  <p className="text-xs text-indigo-200 p-1 text-center">{version.label}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        rows={2}
+        disabled={isBusy}
+        placeholder="Ej.: Lo mismo, pero con velas más cálidas y menos niebla."
+        className="w-full p-3 rounded-lg bg-indigo-900 border border-indigo-700 text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent outline-none transition duration-200 resize-y"
+      ></textarea>
+      {isBusy ? (
+        <div className="text-center">
+          <LoadingSpinner />
+          <button onClick={onCancel} className="mt-2 py-1 px-5 rounded-full bg-red-600 text-white text-sm font-bold hover:bg-red-700">
+            Cancelar
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleRefine}
+          disabled={!canRefine || !instruction.trim()}
+          className="w-full py-3 px-6 rounded-full bg-purple-600 text-white font-bold hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Refinar desde {activeVersion.label}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RenderVersionChain;
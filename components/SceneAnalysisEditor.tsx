@@ -0,0 +1,202 @@
+import React, { useCallback } from 'react';
+import { COMMON_MATERIALS, MATERIAL_FINISHES } from '../services/sceneAnalysis';
+import { MATERIAL_FINISH_LABELS } from '../constants';
+import { MaterialLibraryItem, SceneAnalysis, SceneObject } from '../types';
+
+interface SceneAnalysisEditorProps {
+  analysis: SceneAnalysis;
+  onChange: (analysis: SceneAnalysis) => void;
+  libraryItems: MaterialLibraryItem[];
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full p-2 rounded-lg bg-indigo-900 border border-indigo-700 text-white text-sm focus:ring-2 focus:ring-purple-500 outline-none';
+
+const SceneAnalysisEditor: React.FC<SceneAnalysisEditorProps> = ({ analysis, onChange, libraryItems, disabled = false }) => {
+  const updateObject = useCallback((index: number, changes: Partial<SceneObject>) => {
+    onChange({ ...analysis, objects: analysis.objects.map((object, i) => (i === index ? { ...object, ...changes } : object)) });
+  }, [analysis, onChange]);
+
+  // A library swatch replaces the material name so the prompt refers to it consistently
+  const assignLibraryItem = useCallback((index: number, value: string) => {
+    const item = libraryItems.find(candidate => String(candidate.id) === value);
+    updateObject(index, item ? { libraryItemId: item.id, material: item.name } : { libraryItemId: undefined });
+  }, [libraryItems, updateObject]);
+
+  const removeObject = useCallback((index: number) => {
+    onChange({ ...analysis, objects: analysis.objects.filter((_, i) => i !== index) });
+  }, [analysis, onChange]);
+
+  const addObject = useCallback(() => {
+    onChange({ ...analysis, objects: [...analysis.objects, { name: '', material: COMMON_MATERIALS[0], finish: 'matte' }] });
+  }, [analysis, onChange]);
+
+  const updateEmptyRegion = useCallback((index: number, value: string) => {
+    onChange({ ...analysis, emptyRegions: analysis.emptyRegions.map((region, i) => (i === index ? value : region)) });
+  }, [analysis, onChange]);
+
+  const removeEmptyRegion = useCallback((index: number) => {
+    onChange({ ...analysis, emptyRegions: analysis.emptyRegions.filter((_, i) => i !== index) });
+  }, [analysis, onChange]);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <label className="block text-sm text-indigo-200">
+          Cámara (ángulo)
+          <input
+            type="text"
+            value={analysis.camera.angle}
+            onChange={(e) => onChange({ ...analysis, camera: { ...analysis.camera, angle: e.target.value } })}
+            disabled={disabled}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+        <label className="block text-sm text-indigo-200">
+          Cámara (altura)
+          <input
+            type="text"
+            value={analysis.camera.height}
+            onChange={(e) => onChange({ ...analysis, camera: { ...analysis.camera, height: e.target.value } })}
+            disabled={disabled}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+        <label className="block text-sm text-indigo-200">
+          Aforo estimado
+          <input
+            type="number"
+            min={0}
+            value={analysis.guestCapacity ?? ''}
+            onChange={(e) => onChange({ ...analysis, guestCapacity: e.target.value ? Math.max(0, Math.round(Number(e.target.value))) : null })}
+            disabled={disabled}
+            placeholder="—"
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+      </div>
+
+      <div>
+        <h4 className="text-lg font-semibold text-indigo-200 mb-2">Objetos y Materiales</h4>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-indigo-300">
+              <tr>
+                <th className="p-2">Objeto</th>
+                <th className="p-2">Material</th>
+                <th className="p-2">Acabado</th>
+                <th className="p-2">Biblioteca</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.objects.map((object, index) => (
+                <tr key={index} className="border-t border-indigo-700">
+                  <td className="p-2">
+                    <input
+                      type="text"
+                      value={object.name}
+                      onChange={(e) => updateObject(index, { name: e.target.value })}
+                      disabled={disabled}
+                      placeholder="Ej.: Mesas redondas"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={object.material}
+                      onChange={(e) => updateObject(index, { material: e.target.value })}
+                      disabled={disabled || object.libraryItemId !== undefined}
+                      className={inputClassName}
+                    >
+                      {/* Keep the detected material selectable even when it is not in the common list */}
+                      {Array.from(new Set([object.material, ...COMMON_MATERIALS])).filter(Boolean).map(material => (
+                        <option key={material} value={material}>{material}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={object.finish}
+                      onChange={(e) => updateObject(index, { finish: e.target.value as SceneObject['finish'] })}
+                      disabled={disabled}
+                      className={inputClassName}
+                    >
+                      {MATERIAL_FINISHES.map(finish => (
+                        <option key={finish} value={finish}>{MATERIAL_FINISH_LABELS[finish]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <select
+                      value={object.libraryItemId ?? ''}
+                      onChange={(e) => assignLibraryItem(index, e.target.value)}
+                      disabled={disabled || libraryItems.length === 0}
+                      className={inputClassName}
+                    >
+                      <option value="">—</option>
+                      {libraryItems.map(item => (
+                        <option key={item.id} value={item.id}>{item.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-2 text-right">
+                    <button
+                      onClick={() => removeObject(index)}
+                      disabled={disabled}
+                      aria-label={`Quitar ${object.name}`}
+                      className="text-red-300 hover:text-red-100 disabled:opacity-50"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button
+          onClick={addObject}
+          disabled={disabled}
+          className="mt-2 py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+        >
+          + Añadir objeto
+        </button>
+      </div>
+
+      <div>
+        <h4 className="text-lg font-semibold text-indigo-200 mb-2">Zonas Vacías (no tocar)</h4>
+        <div className="space-y-2">
+          {analysis.emptyRegions.map((region, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                value={region}
+                onChange={(e) => updateEmptyRegion(index, e.target.value)}
+                disabled={disabled}
+                className={inputClassName}
+              />
+              <button
+                onClick={() => removeEmptyRegion(index)}
+                disabled={disabled}
+                aria-label="Quitar zona"
+                className="text-red-300 hover:text-red-100 disabled:opacity-50"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange({ ...analysis, emptyRegions: [...analysis.emptyRegions, ''] })}
+          disabled={disabled}
+          className="mt-2 py-1 px-4 rounded-full bg-indigo-800 text-indigo-200 text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+        >
+          + Añadir zona
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SceneAnalysisEditor;
@@ -0,0 +1,61 @@
+import { LightingType, LightingConfig, MaterialFinish, PromptTemplateId, RenderErrorKind } from './types';
+
+// Short Spanish labels used for captions, grids and exports
+export const LIGHTING_TYPE_LABELS: Record<LightingType, string> = {
+  [LightingType.Day]: 'Día',
+  [LightingType.Sunset]: 'Atardecer',
+  [LightingType.Night]: 'Noche',
+};
+
+export const COLOR_TEMPERATURE_LABELS: Record<LightingConfig['colorTemperature'], string> = {
+  neutral: 'Neutra',
+  warm: 'Cálida',
+  golden: 'Dorada',
+  cool: 'Fría',
+};
+
+export const EXPOSURE_COMPENSATION_LABELS: Record<LightingConfig['exposureCompensation'], string> = {
+  standard: 'Estándar',
+  brighter: 'Más brillante',
+  very_bright: 'Muy brillante',
+  darker: 'Más oscura',
+  very_dark: 'Muy oscura',
+};
+
+export const CONTRAST_ENHANCEMENT_LABELS: Record<LightingConfig['contrastEnhancement'], string> = {
+  natural: 'Natural',
+  enhanced: 'Mejorado',
+  high_contrast: 'Alto contraste',
+  soft: 'Suave',
+  low_contrast: 'Bajo contraste',
+};
+
+export const PROMPT_TEMPLATE_LABELS: Record<PromptTemplateId, string> = {
+  detection: 'Detección',
+  refinement: 'Refinamiento',
+  lighting: 'Iluminación',
+  strictLock: 'Strict Lock',
+  edit: 'Edición de región',
+  revise: 'Refinado',
+};
+
+export const MATERIAL_FINISH_LABELS: Record<MaterialFinish, string> = {
+  matte: 'Mate',
+  satin: 'Satinado',
+  glossy: 'Brillante',
+  metallic: 'Metálico',
+  textured: 'Texturizado',
+  transparent: 'Transparente',
+};
+
+// Messages shown for each class of failed model call
+export const RENDER_ERROR_MESSAGES: Record<RenderErrorKind, string> = {
+  auth: 'La clave API no es válida o no tiene acceso al modelo. Selecciona una clave de un proyecto GCP con facturación (ai.google.dev/gemini-api/docs/billing).',
+  quota: 'Se alcanzó el límite de uso de la API. Espera unos minutos antes de volver a intentarlo.',
+  safety: 'El modelo bloqueó la solicitud por sus filtros de seguridad. Revisa la descripción, las instrucciones o las imágenes de referencia.',
+  no_image: 'El modelo respondió sin devolver una imagen.',
+  network: 'No se pudo contactar con el servicio (red o servidor no disponible).',
+  invalid_input: 'La solicitud no es válida. Revisa que las imágenes sean PNG/JPEG y que la descripción no esté vacía.',
+  cancelled: 'Operación cancelada.',
+  unknown: 'Error inesperado del servicio de IA.',
+};
@@ -0,0 +1,27 @@
+import { configureGeminiClient } from '../services/geminiService';
+
+// Environment helpers shared by the Node entry points (proxy, jobs API, CLI)
+
+export const readPositiveNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name] ?? fallback);
+  if (!Number.isFinite(value) || value <= 0) throw new Error(`${name} must be a positive number.`);
+  return value;
+};
+
+/**
+ * Points the Gemini client at GEMINI_API_KEY and, when set, GEMINI_UPSTREAM_URL
+ * (e.g. the stub from `npm run proxy:stub`). Returns false when there is no key.
+ */
+export const configureGeminiFromEnv = (): boolean => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) return false;
+  const upstreamUrl = process.env.GEMINI_UPSTREAM_URL;
+  configureGeminiClient({ apiKey, ...(upstreamUrl ? { httpOptions: { baseUrl: upstreamUrl } } : {}) });
+  return true;
+};
+
+export const readList = (name: string): string[] =>
+  (process.env[name] ?? '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+
+export const isLoopbackHost = (host: string): boolean =>
+  host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
@@ -0,0 +1,157 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ImageInput, OutputFormat, PromptReferences, PromptTemplateSet, RenderErrorKind } from '../types';
+import { RenderError, classifyError } from '../services/renderErrors';
+import { validateOutputFormat } from '../services/lightingConfig';
+import { PROMPT_TEMPLATE_IDS } from '../services/promptTemplates';
+import { EncodedImage, ProxyErrorBody, RefineRequest, decodeImage, decodePromptReferences } from '../services/proxyProtocol';
+
+// Helpers shared by the proxy (proxyServer.ts) and the jobs API (jobsServer.ts)
+
+// One line per request; no prompts or image data, which can be large and belong to the client
+export interface RequestLogEntry {
+  time: string;
+  userId: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  errorKind?: RenderErrorKind;
+  errorDetail?: string;
+}
+
+export type RequestLogger = (entry: RequestLogEntry) => void;
+
+export const logToStdout: RequestLogger = entry => console.log(JSON.stringify(entry));
+
+/** A failure raised by the server itself, answered with its own status instead of the one for its kind. */
+export class HttpError extends RenderError {
+  readonly httpStatus: number;
+
+  constructor(kind: RenderErrorKind, detail: string, httpStatus: number) {
+    super(kind, detail, httpStatus);
+    this.httpStatus = httpStatus;
+  }
+}
+
+const STATUS_BY_KIND: Record<RenderErrorKind, number> = {
+  invalid_input: 400,
+  safety: 422,
+  quota: 429,
+  cancelled: 499,
+  unknown: 500,
+  // Upstream problems, including a bad server key, are the gateway's fault rather than the caller's
+  auth: 502,
+  network: 502,
+  no_image: 502,
+};
+
+export const invalid = (detail: string, httpStatus: number = 400) => new HttpError('invalid_input', detail, httpStatus);
+
+/**
+ * Logs the request once its response closes. The returned function attaches the error
+ * that was answered, so it shows up in the log line.
+ */
+export const trackRequest = (req: IncomingMessage, res: ServerResponse, userId: string, log: RequestLogger) => {
+  const startedAt = Date.now();
+  let failure: RenderError | undefined;
+  res.on('close', () => log({
+    time: new Date(startedAt).toISOString(),
+    userId,
+    method: req.method ?? '',
+    path: new URL(req.url ?? '/', 'http://localhost').pathname,
+    status: res.statusCode,
+    durationMs: Date.now() - startedAt,
+    ...(failure ? { errorKind: failure.kind, errorDetail: failure.detail } : {}),
+  }));
+  return (error: RenderError) => {
+    failure = error;
+  };
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/** Answers `{ error: { kind, detail } }` and returns the classified error for logging. */
+export const sendError = (res: ServerResponse, error: unknown): RenderError => {
+  const renderError = classifyError(error);
+  if (!res.destroyed && !res.headersSent) {
+    const status = renderError instanceof HttpError ? renderError.httpStatus : STATUS_BY_KIND[renderError.kind];
+    sendJson(res, status, { error: { kind: renderError.kind, detail: renderError.detail } } satisfies ProxyErrorBody);
+  }
+  return renderError;
+};
+
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw invalid(`Request body is larger than ${maxBytes} bytes.`, 413);
+    chunks.push(chunk);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw invalid('Request body is not valid JSON.');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw invalid('Request body must be a JSON object.');
+  return body as Record<string, unknown>;
+};
+
+export const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw invalid(`"${field}" must be a non-empty string.`);
+  return value;
+};
+
+export const requireImage = (value: unknown, field: string): ImageInput => {
+  const image = value as EncodedImage | null;
+  if (!image || typeof image.data !== 'string' || typeof image.mimeType !== 'string' || !image.mimeType.startsWith('image/')) {
+    throw invalid(`"${field}" must be an encoded image.`);
+  }
+  try {
+    return decodeImage(image, field);
+  } catch {
+    throw invalid(`"${field}" is not valid base64.`);
+  }
+};
+
+export const requireImages = (value: unknown, field: string): ImageInput[] => {
+  if (!Array.isArray(value)) throw invalid(`"${field}" must be an array.`);
+  return value.map((image, index) => requireImage(image, `${field}[${index}]`));
+};
+
+export const requireTemplates = (value: unknown): PromptTemplateSet => {
+  const templates = value as Partial<PromptTemplateSet> | null;
+  for (const id of PROMPT_TEMPLATE_IDS) {
+    if (typeof templates?.[id]?.body !== 'string') throw invalid(`"templates.${id}.body" is missing.`);
+  }
+  return templates as PromptTemplateSet;
+};
+
+// The shared validators throw Spanish, user-facing errors; they are reported as invalid input
+export const parseWith = <T>(parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw error instanceof RenderError ? error : invalid(error instanceof Error ? error.message : String(error));
+  }
+};
+
+export const requireOutputFormat = (value: unknown): OutputFormat => parseWith(() => validateOutputFormat(value ?? {}));
+
+export const requirePromptReferences = (value: unknown): PromptReferences => {
+  const references = value as Partial<RefineRequest['references']> | null;
+  if (!references || !Number.isInteger(references.imageCount) || references.imageCount! < 0) {
+    throw invalid('"references.imageCount" must be a non-negative integer.');
+  }
+  if (!Array.isArray(references.libraryItems) || !references.libraryItems.every(item => typeof item?.name === 'string' && typeof item?.description === 'string')) {
+    throw invalid('"references.libraryItems" must be a list of { name, description }.');
+  }
+  if (!Array.isArray(references.materials) || !references.materials.every(material => typeof material?.objectName === 'string' && Number.isInteger(material?.itemIndex))) {
+    throw invalid('"references.materials" must be a list of { objectName, itemIndex }.');
+  }
+  return parseWith(() => decodePromptReferences(references as RefineRequest['references']));
+};
@@ -0,0 +1,27 @@
+import { geminiRenderProvider } from '../services/geminiService';
+import { createProxyServer } from './proxyServer';
+import { createRateLimiter } from './rateLimiter';
+import { configureGeminiFromEnv, readPositiveNumber } from './env';
+
+// Entry point for `npm run proxy`; configuration comes from the environment (see README)
+
+if (!configureGeminiFromEnv()) {
+  console.error('GEMINI_API_KEY is not set; the proxy has no key to call Gemini with.');
+  process.exit(1);
+}
+
+const port = readPositiveNumber('PROXY_PORT', 8787);
+const requestsPerMinute = readPositiveNumber('PROXY_RATE_LIMIT_PER_MINUTE', 30);
+const ipRequestsPerMinute = readPositiveNumber('PROXY_IP_RATE_LIMIT_PER_MINUTE', 60);
+
+const server = createProxyServer({
+  provider: geminiRenderProvider,
+  ipRateLimiter: createRateLimiter(ipRequestsPerMinute, 60_000),
+  clientRateLimiter: createRateLimiter(requestsPerMinute, 60_000),
+  trustForwardedFor: process.env.PROXY_TRUST_FORWARDED_FOR === 'true',
+  allowedOrigin: process.env.PROXY_ALLOWED_ORIGIN ?? 'http://localhost:3000',
+});
+
+server.listen(port, () => {
+  console.log(`Render proxy listening on http://localhost:${port} (upstream: ${process.env.GEMINI_UPSTREAM_URL ?? 'Google'}, ${ipRequestsPerMinute} requests/min per IP, ${requestsPerMinute} per browser)`);
+});
@@ -0,0 +1,169 @@
+import { ImageInput, LightingConfig, PromptTemplateSet, RenderErrorKind, RenderProvider } from '../types';
+import { generateSingleRender } from '../services/renderService';
+import { classifyError, isAbortError } from '../services/renderErrors';
+import { dataUrlToBlob } from '../services/imageUtils';
+import { embedImageMetadata } from '../services/imageMetadata';
+
+export type RenderJobStatus = 'queued' | 'detecting' | 'rendering' | 'succeeded' | 'failed' | 'cancelled';
+
+export const FINISHED_JOB_STATUSES: RenderJobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export interface WebhookDelivery {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastError: string | null;
+  deliveredAt: string | null;
+}
+
+export interface RenderJobInput {
+  image: ImageInput;
+  lighting: LightingConfig;
+  // Skips detection when the caller already has a description (e.g. edited in the app)
+  sceneDescription: string | null;
+  webhookUrl: string | null;
+  // Opaque values echoed back in status responses and webhooks, e.g. the booking id
+  metadata: Record<string, string>;
+}
+
+export interface RenderJob extends RenderJobInput {
+  id: string;
+  status: RenderJobStatus;
+  progress: string;
+  prompt: string | null;
+  result: Blob | null;
+  error: { kind: RenderErrorKind; message: string } | null;
+  webhook: WebhookDelivery | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  controller: AbortController;
+}
+
+export interface JobQueueOptions {
+  provider: RenderProvider;
+  templates: PromptTemplateSet;
+  concurrency: number;
+  // Finished jobs (and their images) are dropped from memory after this long
+  retentionMs: number;
+  // Called once per job when it reaches a finished status; used for webhooks
+  onFinished?: (job: RenderJob) => void;
+}
+
+export interface JobQueue {
+  submit: (input: RenderJobInput) => RenderJob;
+  get: (id: string) => RenderJob | undefined;
+  // Returns false when the job had already finished
+  cancel: (id: string) => boolean;
+}
+
+/**
+ * In-memory job queue around the detect -> refine -> render pipeline. Jobs run in submission
+ * order with at most `concurrency` in flight; nothing survives a restart of the process.
+ */
+export const createJobQueue = ({ provider, templates, concurrency, retentionMs, onFinished }: JobQueueOptions): JobQueue => {
+  const jobs = new Map<string, RenderJob>();
+  const waiting: RenderJob[] = [];
+  let running = 0;
+
+  const update = (job: RenderJob, changes: Partial<RenderJob>) => {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  };
+
+  const finish = (job: RenderJob, changes: Partial<RenderJob>) => {
+    update(job, { ...changes, progress: '', finishedAt: new Date().toISOString() });
+    onFinished?.(job);
+  };
+
+  const pruneFinished = () => {
+    const cutoff = Date.now() - retentionMs;
+    for (const [id, job] of jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) jobs.delete(id);
+    }
+  };
+
+  const runJob = async (job: RenderJob) => {
+    const { signal } = job.controller;
+    try {
+      let sceneDescription = job.sceneDescription;
+      if (!sceneDescription) {
+        update(job, { status: 'detecting', progress: 'Detecting scene elements' });
+        sceneDescription = await provider.detect([job.image], templates, signal);
+        update(job, { sceneDescription });
+      }
+      update(job, { status: 'rendering' });
+      const result = await generateSingleRender(provider, job.image, sceneDescription, [], job.lighting,
+        progress => update(job, { progress }), { templates, signal });
+      if (!result.url) {
+        finish(job, result.errorKind === 'cancelled'
+          ? { status: 'cancelled', prompt: result.prompt }
+          : { status: 'failed', prompt: result.prompt, error: { kind: result.errorKind ?? 'unknown', message: result.error ?? '' } });
+        return;
+      }
+      const rendered = await embedImageMetadata(dataUrlToBlob(result.url), {
+        prompt: result.prompt ?? '',
+        modelName: provider.modelName,
+        lighting: job.lighting,
+        createdAt: new Date().toISOString(),
+      });
+      finish(job, { status: 'succeeded', prompt: result.prompt, result: rendered });
+    } catch (error) {
+      if (isAbortError(error)) {
+        finish(job, { status: 'cancelled' });
+        return;
+      }
+      const renderError = classifyError(error);
+      finish(job, { status: 'failed', error: { kind: renderError.kind, message: renderError.message } });
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running++;
+      runJob(job).finally(() => {
+        running--;
+        pump();
+      });
+    }
+  };
+
+  return {
+    submit: (input) => {
+      pruneFinished();
+      const now = new Date().toISOString();
+      const job: RenderJob = {
+        ...input,
+        id: crypto.randomUUID(),
+        status: 'queued',
+        progress: '',
+        prompt: null,
+        result: null,
+        error: null,
+        webhook: null,
+        createdAt: now,
+        updatedAt: now,
+        finishedAt: null,
+        controller: new AbortController(),
+      };
+      jobs.set(job.id, job);
+      waiting.push(job);
+      pump();
+      return job;
+    },
+    get: (id) => jobs.get(id),
+    cancel: (id) => {
+      const job = jobs.get(id);
+      if (!job || FINISHED_JOB_STATUSES.includes(job.status)) return false;
+      const queuedIndex = waiting.indexOf(job);
+      if (queuedIndex >= 0) {
+        waiting.splice(queuedIndex, 1);
+        finish(job, { status: 'cancelled' });
+      } else {
+        // The running pipeline sees the abort and finishes the job as cancelled
+        job.controller.abort();
+      }
+      return true;
+    },
+  };
+};
@@ -0,0 +1,45 @@
+import { getRenderProvider } from '../services/renderService';
+import { getActivePromptTemplates } from '../services/promptTemplates';
+import { createJobQueue } from './jobQueue';
+import { createJobsServer, describeJob } from './jobsServer';
+import { deliverJobWebhook } from './webhooks';
+import { configureGeminiFromEnv, isLoopbackHost, readList, readPositiveNumber } from './env';
+
+// Entry point for `npm run jobs-api`; configuration comes from the environment (see README).
+// RENDER_PROVIDER=mock runs the whole API without a key.
+
+const provider = getRenderProvider(process.env.RENDER_PROVIDER);
+if (provider.requiresApiKey && !configureGeminiFromEnv()) {
+  console.error('GEMINI_API_KEY is not set (or set RENDER_PROXY_URL, or RENDER_PROVIDER=mock for local testing).');
+  process.exit(1);
+}
+
+const port = readPositiveNumber('JOBS_PORT', 8790);
+const host = process.env.JOBS_HOST ?? '127.0.0.1';
+const apiToken = process.env.JOBS_API_TOKEN;
+const publicUrl = process.env.JOBS_PUBLIC_URL ?? `http://localhost:${port}`;
+const webhookSecret = process.env.JOBS_WEBHOOK_SECRET;
+const webhookAllowedHosts = readList('JOBS_WEBHOOK_ALLOWED_HOSTS');
+
+// Anyone who can reach the API can spend the render quota
+if (!apiToken && !isLoopbackHost(host)) {
+  console.error(`JOBS_API_TOKEN is not set; refusing to listen on ${host} without it (set JOBS_HOST=127.0.0.1 for local use).`);
+  process.exit(1);
+}
+
+const queue = createJobQueue({
+  provider,
+  templates: getActivePromptTemplates(),
+  concurrency: readPositiveNumber('JOBS_CONCURRENCY', 2),
+  retentionMs: readPositiveNumber('JOBS_RETENTION_HOURS', 24) * 60 * 60 * 1000,
+  onFinished: job => {
+    deliverJobWebhook(job, { event: `job.${job.status}`, job: describeJob(job, publicUrl) }, { secret: webhookSecret, allowedHosts: webhookAllowedHosts })
+      .catch(error => console.error(`Webhook for job ${job.id} crashed:`, error));
+  },
+});
+
+const server = createJobsServer({ queue, provider, publicUrl, apiToken, webhookAllowedHosts });
+
+server.listen(port, host, () => {
+  console.log(`Render jobs API listening on ${host}:${port}, public URL ${publicUrl} (provider: ${provider.name}${apiToken ? ', bearer token required' : ''})`);
+});
@@ -0,0 +1,188 @@
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { RenderProvider } from '../types';
+import { validateLightingConfig } from '../services/lightingConfig';
+import { extensionForMimeType } from '../services/imageUtils';
+import { JobQueue, RenderJob } from './jobQueue';
+import { checkWebhookTarget } from './webhooks';
+import {
+  HttpError,
+  RequestLogger,
+  invalid,
+  logToStdout,
+  parseWith,
+  readJsonBody,
+  requireImage,
+  requireString,
+  sendError,
+  sendJson,
+  trackRequest,
+} from './httpUtils';
+
+export const JOBS_ROUTE = '/v1/jobs';
+export const JOBS_HEALTH_ROUTE = '/v1/health';
+
+const JOB_PATH = /^\/v1\/jobs\/([^/]+)(\/result)?$/;
+const MAX_METADATA_KEYS = 20;
+
+// Scene image plus settings; well below the proxy limit since there are no reference images
+const DEFAULT_MAX_BODY_BYTES = 30 * 1024 * 1024;
+
+export interface JobsServerOptions {
+  queue: JobQueue;
+  provider: RenderProvider;
+  // Base URL the API is reachable at, used for absolute result links in responses and webhooks
+  publicUrl: string;
+  // When set, every request needs `Authorization: Bearer <token>`
+  apiToken?: string;
+  // Webhook hosts accepted even when they resolve to internal addresses
+  webhookAllowedHosts?: string[];
+  maxBodyBytes?: number;
+  log?: RequestLogger;
+}
+
+// What callers see of a job: no image data, no internals
+export interface RenderJobView {
+  id: string;
+  status: RenderJob['status'];
+  progress: string;
+  lighting: RenderJob['lighting'];
+  sceneDescription: string | null;
+  prompt: string | null;
+  metadata: Record<string, string>;
+  error: RenderJob['error'];
+  webhook: RenderJob['webhook'];
+  resultUrl: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+export const describeJob = (job: RenderJob, publicUrl: string): RenderJobView => ({
+  id: job.id,
+  status: job.status,
+  progress: job.progress,
+  lighting: job.lighting,
+  sceneDescription: job.sceneDescription,
+  prompt: job.prompt,
+  metadata: job.metadata,
+  error: job.error,
+  webhook: job.webhook,
+  resultUrl: job.result ? `${publicUrl.replace(/\/+$/, '')}${JOBS_ROUTE}/${job.id}/result` : null,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  finishedAt: job.finishedAt,
+});
+
+const requireWebhookUrl = async (value: unknown, allowedHosts: string[]): Promise<string | null> => {
+  if (value === undefined || value === null) return null;
+  const url = requireString(value, 'webhookUrl');
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw invalid('"webhookUrl" is not a valid URL.');
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') throw invalid('"webhookUrl" must be an http(s) URL.');
+  try {
+    await checkWebhookTarget(url, allowedHosts);
+  } catch (error) {
+    throw invalid(`"webhookUrl" is not allowed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return url;
+};
+
+const requireMetadata = (value: unknown): Record<string, string> => {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) throw invalid('"metadata" must be an object.');
+  const entries = Object.entries(value);
+  if (entries.length > MAX_METADATA_KEYS) throw invalid(`"metadata" accepts at most ${MAX_METADATA_KEYS} keys.`);
+  for (const [key, entry] of entries) {
+    if (typeof entry !== 'string') throw invalid(`"metadata.${key}" must be a string.`);
+  }
+  return value as Record<string, string>;
+};
+
+const isAuthorized = (req: IncomingMessage, apiToken: string): boolean => {
+  const expected = Buffer.from(`Bearer ${apiToken}`);
+  const received = Buffer.from(req.headers.authorization ?? '');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+/**
+ * REST API for other systems (e.g. the booking platform): submit a render job, poll its status,
+ * download the result and optionally get a webhook when it finishes.
+ *
+ *   POST   /v1/jobs              { image, lighting, sceneDescription?, webhookUrl?, metadata? } -> 202 job
+ *   GET    /v1/jobs/:id          -> job
+ *   GET    /v1/jobs/:id/result   -> image bytes (409 until the job succeeded)
+ *   DELETE /v1/jobs/:id          -> cancels a queued or running job
+ */
+export const createJobsServer = ({
+  queue,
+  provider,
+  publicUrl,
+  apiToken,
+  webhookAllowedHosts = [],
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  log = logToStdout,
+}: JobsServerOptions): Server => createServer(async (req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const setFailure = trackRequest(req, res, apiToken ? 'token' : `ip:${req.socket.remoteAddress ?? 'unknown'}`, log);
+
+  try {
+    // Left open so load balancers and uptime checks don't need the token
+    if (path === JOBS_HEALTH_ROUTE && req.method === 'GET') {
+      sendJson(res, 200, { provider: provider.name, modelName: provider.modelName });
+      return;
+    }
+
+    if (apiToken && !isAuthorized(req, apiToken)) throw new HttpError('auth', 'Missing or wrong bearer token.', 401);
+
+    if (path === JOBS_ROUTE) {
+      if (req.method !== 'POST') throw invalid(`${path} only accepts POST.`, 405);
+      const body = await readJsonBody(req, maxBodyBytes);
+      const job = queue.submit({
+        image: requireImage(body.image, 'image'),
+        lighting: parseWith(() => validateLightingConfig(body.lighting)),
+        sceneDescription: body.sceneDescription === undefined || body.sceneDescription === null
+          ? null
+          : requireString(body.sceneDescription, 'sceneDescription'),
+        webhookUrl: await requireWebhookUrl(body.webhookUrl, webhookAllowedHosts),
+        metadata: requireMetadata(body.metadata),
+      });
+      const view = describeJob(job, publicUrl);
+      res.setHeader('Location', `${JOBS_ROUTE}/${job.id}`);
+      sendJson(res, 202, { job: view });
+      return;
+    }
+
+    const match = path.match(JOB_PATH);
+    const job = match ? queue.get(match[1]) : undefined;
+    if (!match) throw invalid(`Unknown endpoint ${req.method} ${path}.`, 404);
+    if (!job) throw invalid(`Job ${match[1]} does not exist or has expired.`, 404);
+
+    if (match[2]) {
+      if (req.method !== 'GET') throw invalid(`${path} only accepts GET.`, 405);
+      if (!job.result) throw invalid(`Job ${job.id} has no result (status: ${job.status}).`, 409);
+      res.writeHead(200, {
+        'Content-Type': job.result.type,
+        'Content-Length': String(job.result.size),
+        'Content-Disposition': `attachment; filename="${job.id}.${extensionForMimeType(job.result.type)}"`,
+      });
+      res.end(Buffer.from(await job.result.arrayBuffer()));
+      return;
+    }
+
+    if (req.method === 'GET') {
+      sendJson(res, 200, { job: describeJob(job, publicUrl) });
+    } else if (req.method === 'DELETE') {
+      if (!queue.cancel(job.id)) throw invalid(`Job ${job.id} already finished (status: ${job.status}).`, 409);
+      sendJson(res, 202, { job: describeJob(job, publicUrl) });
+    } else {
+      throw invalid(`${path} only accepts GET and DELETE.`, 405);
+    }
+  } catch (error) {
+    setFailure(sendError(res, error));
+  }
+});
@@ -0,0 +1,178 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { RenderProvider } from '../types';
+import { validateLightingConfig } from '../services/lightingConfig';
+import {
+  CLIENT_ID_HEADER,
+  PROXY_ROUTES,
+  AnalyzeRequest,
+  DetectRequest,
+  EditRequest,
+  ProxyHealth,
+  RefineRequest,
+  RenderRequest,
+  ReviseRequest,
+} from '../services/proxyProtocol';
+import {
+  HttpError,
+  RequestLogger,
+  invalid,
+  logToStdout,
+  parseWith,
+  readJsonBody,
+  requireImage,
+  requireImages,
+  requireOutputFormat,
+  requirePromptReferences,
+  requireString,
+  requireTemplates,
+  sendError,
+  sendJson,
+  trackRequest,
+} from './httpUtils';
+import { RateLimiter } from './rateLimiter';
+
+export interface ProxyServerOptions {
+  provider: RenderProvider;
+  // Always applied, per caller IP address
+  ipRateLimiter: RateLimiter;
+  // Tighter limit per browser (x-client-id) within the IP limit
+  clientRateLimiter: RateLimiter;
+  // Take the caller IP from the last X-Forwarded-For entry; only behind a reverse proxy that sets it
+  trustForwardedFor?: boolean;
+  // Value of Access-Control-Allow-Origin, e.g. the Vite dev server
+  allowedOrigin: string;
+  maxBodyBytes?: number;
+  log?: RequestLogger;
+}
+
+// A 4K render plus references, base64-encoded
+const DEFAULT_MAX_BODY_BYTES = 60 * 1024 * 1024;
+
+const requireRenderUrl = (value: unknown): string => {
+  const url = requireString(value, 'renderUrl');
+  if (!url.startsWith('data:image/')) throw invalid('"renderUrl" must be an image data URL.');
+  return url;
+};
+
+// Bodies arrive as untyped JSON: every field of the request type is unknown until a validator checks it
+type RequestBody<T> = { readonly [K in keyof T]?: unknown };
+
+type RouteHandler = (body: Record<string, unknown>, provider: RenderProvider, signal: AbortSignal) => Promise<unknown>;
+
+const ROUTE_HANDLERS: Record<string, RouteHandler> = {
+  [PROXY_ROUTES.detect]: (body: RequestBody<DetectRequest>, provider, signal) =>
+    provider.detect(requireImages(body.images, 'images'), requireTemplates(body.templates), signal),
+  [PROXY_ROUTES.analyze]: (body: RequestBody<AnalyzeRequest>, provider, signal) =>
+    provider.analyze(requireImage(body.image, 'image'), requireTemplates(body.templates), signal),
+  [PROXY_ROUTES.refine]: (body: RequestBody<RefineRequest>, provider, signal) =>
+    provider.refine(
+      requireString(body.sceneDescription, 'sceneDescription'),
+      parseWith(() => validateLightingConfig(body.lighting)),
+      requirePromptReferences(body.references),
+      requireTemplates(body.templates),
+      signal
+    ),
+  [PROXY_ROUTES.render]: (body: RequestBody<RenderRequest>, provider, signal) =>
+    provider.render(
+      requireImage(body.image, 'image'),
+      requireString(body.prompt, 'prompt'),
+      requireImages(body.referenceImages ?? [], 'referenceImages'),
+      requireOutputFormat(body.outputFormat),
+      signal
+    ),
+  [PROXY_ROUTES.edit]: (body: RequestBody<EditRequest>, provider, signal) =>
+    provider.edit(
+      requireRenderUrl(body.renderUrl),
+      requireImage(body.mask, 'mask'),
+      requireString(body.instruction, 'instruction'),
+      requireOutputFormat(body.outputFormat),
+      requireTemplates(body.templates),
+      signal
+    ),
+  [PROXY_ROUTES.revise]: (body: RequestBody<ReviseRequest>, provider, signal) =>
+    provider.revise(
+      requireRenderUrl(body.renderUrl),
+      requireString(body.instruction, 'instruction'),
+      requireOutputFormat(body.outputFormat),
+      requireTemplates(body.templates),
+      signal
+    ),
+};
+
+const firstHeader = (req: IncomingMessage, name: string) => {
+  const header = req.headers[name];
+  return Array.isArray(header) ? header[0] : header;
+};
+
+// The entry appended by the closest proxy is the only one the caller cannot forge
+const getClientIp = (req: IncomingMessage, trustForwardedFor: boolean): string => {
+  const forwarded = trustForwardedFor ? firstHeader(req, 'x-forwarded-for')?.split(',').pop()?.trim() : undefined;
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+// The client id is chosen by the browser, so it only splits an IP's allowance between designers
+const getClientId = (req: IncomingMessage): string | null => firstHeader(req, CLIENT_ID_HEADER)?.trim().slice(0, 100) || null;
+
+const rejectWhenLimited = (rateLimiter: RateLimiter, key: string, res: ServerResponse) => {
+  const decision = rateLimiter.take(key);
+  res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+  if (!decision.allowed) {
+    res.setHeader('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+    throw new HttpError('quota', `Rate limit exceeded, retry in ${Math.ceil(decision.retryAfterMs / 1000)} s.`, 429);
+  }
+};
+
+/**
+ * HTTP server that owns the Gemini key: the browser posts the same arguments it would pass to a
+ * RenderProvider and gets back `{ result }`, or `{ error: { kind, detail } }` with a matching status.
+ */
+export const createProxyServer = ({
+  provider,
+  ipRateLimiter,
+  clientRateLimiter,
+  trustForwardedFor = false,
+  allowedOrigin,
+  maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+  log = logToStdout,
+}: ProxyServerOptions): Server => createServer(async (req, res) => {
+  const ip = getClientIp(req, trustForwardedFor);
+  const clientId = getClientId(req);
+  const userId = clientId ? `ip:${ip} client:${clientId}` : `ip:${ip}`;
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const setFailure = trackRequest(req, res, userId, log);
+
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+  res.setHeader('Access-Control-Allow-Headers', `Content-Type, ${CLIENT_ID_HEADER}`);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method === 'GET' && path === PROXY_ROUTES.health) {
+    sendJson(res, 200, { provider: provider.name, modelName: provider.modelName } satisfies ProxyHealth);
+    return;
+  }
+
+  // A closed connection (browser cancel) aborts the upstream call and its retries
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const handler = ROUTE_HANDLERS[path];
+    if (!handler) throw invalid(`Unknown endpoint ${req.method} ${path}.`, 404);
+    if (req.method !== 'POST') throw invalid(`${path} only accepts POST.`, 405);
+
+    rejectWhenLimited(ipRateLimiter, ip, res);
+    // Scoped to the IP, so a made-up id never escapes the IP limit or eats another caller's allowance
+    if (clientId) rejectWhenLimited(clientRateLimiter, `${ip} ${clientId}`, res);
+
+    const body = await readJsonBody(req, maxBodyBytes);
+    const result = await handler(body, provider, controller.signal);
+    sendJson(res, 200, { result });
+  } catch (error) {
+    setFailure(sendError(res, error));
+  }
+});
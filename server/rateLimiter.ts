@@ -0,0 +1,37 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  // Time until the user's window resets; the server sends it as Retry-After
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (userId: string) => RateLimitDecision;
+}
+
+/**
+ * Fixed-window limiter kept in memory: each user gets `limit` model calls per `windowMs`.
+ * Enough for a single proxy process; windows are dropped once they expire.
+ */
+export const createRateLimiter = (limit: number, windowMs: number, now: () => number = Date.now): RateLimiter => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const pruneExpired = (time: number) => {
+    for (const [userId, window] of windows) {
+      if (time - window.startedAt >= windowMs) windows.delete(userId);
+    }
+  };
+
+  return {
+    take: (userId) => {
+      const time = now();
+      pruneExpired(time);
+      const window = windows.get(userId) ?? { startedAt: time, count: 0 };
+      windows.set(userId, window);
+      const retryAfterMs = window.startedAt + windowMs - time;
+      if (window.count >= limit) return { allowed: false, remaining: 0, retryAfterMs };
+      window.count++;
+      return { allowed: true, remaining: limit - window.count, retryAfterMs };
+    },
+  };
+};
@@ -0,0 +1,100 @@
+import { createServer, ServerResponse } from 'node:http';
+import { SceneAnalysis } from '../types';
+
+// Stand-in for generativelanguage.googleapis.com, for `npm run proxy:stub`.
+// Start the proxy with GEMINI_UPSTREAM_URL=http://localhost:<STUB_PORT> to exercise it without a real key.
+
+const port = Number(process.env.STUB_PORT ?? 8788);
+
+const STUB_SCENE_DESCRIPTION = `1. CAMARA: Plano general, altura de ojos, frontal.
+2. ZONAS VACÍAS (NO TOCAR):
+   * Centro: Pasillo despejado.
+3. GEOMETRÍA EXISTENTE:
+   * Mesas redondas -> Mantel de lino blanco (mate).
+   * Suelo: Parqué de roble.`;
+
+const STUB_SCENE_ANALYSIS: SceneAnalysis = {
+  camera: { angle: 'Plano general, frontal', height: 'Altura de ojos' },
+  objects: [
+    { name: 'Mesas redondas', material: 'White linen tablecloth', finish: 'matte' },
+    { name: 'Suelo', material: 'Oak parquet', finish: 'satin' },
+  ],
+  emptyRegions: ['Centro: Pasillo despejado.'],
+  guestCapacity: 40,
+};
+
+const ASPECT_RATIO_SIZES: Record<string, [number, number]> = {
+  '16:9': [1024, 576],
+  '3:2': [960, 640],
+  '4:5': [640, 800],
+  '1:1': [768, 768],
+  '9:16': [576, 1024],
+};
+
+const placeholderSvg = (aspectRatio: string): string => {
+  const [width, height] = ASPECT_RATIO_SIZES[aspectRatio] ?? ASPECT_RATIO_SIZES['16:9'];
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect width="${width}" height="${height}" fill="#312e81"/>
+  <text x="${width / 2}" y="${height / 2}" font-family="sans-serif" font-size="40" text-anchor="middle" fill="#ffffff">STUB UPSTREAM ${aspectRatio}</text>
+</svg>`;
+};
+
+const textResponse = (text: string) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }],
+});
+
+// The parts of a generateContent request the stub looks at
+interface StubRequest {
+  generationConfig?: {
+    responseModalities?: string[];
+    responseMimeType?: string;
+    imageConfig?: { aspectRatio?: string };
+  };
+  contents?: { parts?: { text?: string; inlineData?: unknown }[] }[];
+}
+
+// Picks the answer from the request shape: image output, JSON schema, image input (detection) or plain text (refinement)
+const answer = (request: StubRequest) => {
+  const config = request.generationConfig ?? {};
+  const parts = (request.contents ?? []).flatMap(content => content.parts ?? []);
+  if (config.responseModalities?.includes('IMAGE')) {
+    const svg = placeholderSvg(config.imageConfig?.aspectRatio ?? '16:9');
+    return {
+      candidates: [{
+        content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/svg+xml', data: Buffer.from(svg).toString('base64') } }] },
+        finishReason: 'STOP',
+      }],
+    };
+  }
+  if (config.responseMimeType === 'application/json') return textResponse(JSON.stringify(STUB_SCENE_ANALYSIS));
+  if (parts.some(part => part.inlineData)) return textResponse(STUB_SCENE_DESCRIPTION);
+  return textResponse(`[STUB PROMPT] ${parts.map(part => part.text ?? '').join(' ').slice(0, 200)}`);
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+createServer(async (req, res) => {
+  const match = req.url?.match(/^\/[^/]+\/models\/([^/:?]+):generateContent/);
+  console.log(`${req.method} ${req.url}`);
+  if (req.method !== 'POST' || !match) {
+    sendJson(res, 404, { error: { code: 404, message: `Stub does not implement ${req.method} ${req.url}`, status: 'NOT_FOUND' } });
+    return;
+  }
+  // Same check as the real API, so a proxy that forgets the key fails here too
+  if (!req.headers['x-goog-api-key']) {
+    sendJson(res, 401, { error: { code: 401, message: 'API key not valid. Please pass a valid API key.', status: 'UNAUTHENTICATED' } });
+    return;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  try {
+    sendJson(res, 200, answer(JSON.parse(Buffer.concat(chunks).toString('utf8'))));
+  } catch (error) {
+    sendJson(res, 400, { error: { code: 400, message: `Invalid request: ${String(error)}`, status: 'INVALID_ARGUMENT' } });
+  }
+}).listen(port, () => {
+  console.log(`Stub Gemini upstream listening on http://localhost:${port}`);
+});
@@ -0,0 +1,46 @@
+import { LookupAddress } from 'node:dns';
+import { describe, expect, it } from 'vitest';
+import { checkWebhookTarget, guardedLookup } from './webhooks';
+
+// IP literals and localhost resolve without a network, so every case runs offline
+const TARGETS = [
+  { url: 'http://127.0.0.1:8080/hook', allowedHosts: [], allowed: false },
+  { url: 'http://localhost/hook', allowedHosts: [], allowed: false },
+  { url: 'http://10.1.2.3/hook', allowedHosts: [], allowed: false },
+  { url: 'http://172.16.0.5/hook', allowedHosts: [], allowed: false },
+  { url: 'http://192.168.1.1/hook', allowedHosts: [], allowed: false },
+  { url: 'http://169.254.169.254/latest/meta-data', allowedHosts: [], allowed: false },
+  { url: 'http://0.0.0.0/hook', allowedHosts: [], allowed: false },
+  { url: 'http://[::1]/hook', allowedHosts: [], allowed: false },
+  { url: 'http://[::ffff:127.0.0.1]/hook', allowedHosts: [], allowed: false },
+  { url: 'http://[fd00::1]/hook', allowedHosts: [], allowed: false },
+  { url: 'http://[fe80::1]/hook', allowedHosts: [], allowed: false },
+  { url: 'http://localhost/hook', allowedHosts: ['localhost'], allowed: true },
+  { url: 'http://LOCALHOST:9000/hook', allowedHosts: ['localhost'], allowed: true },
+  { url: 'https://8.8.8.8/hook', allowedHosts: [], allowed: true },
+  { url: 'https://[2606:4700:4700::1111]/hook', allowedHosts: [], allowed: true },
+];
+
+const lookupAddresses = (hostname: string, all: boolean) =>
+  new Promise<string | LookupAddress[]>((resolve, reject) => {
+    guardedLookup(hostname, { all }, (error, address) => (error ? reject(error) : resolve(address)));
+  });
+
+describe('checkWebhookTarget', () => {
+  it.each(TARGETS)('$url with allowlist $allowedHosts -> allowed: $allowed', async ({ url, allowedHosts, allowed }) => {
+    const check = checkWebhookTarget(url, allowedHosts);
+    if (allowed) await expect(check).resolves.toBeUndefined();
+    else await expect(check).rejects.toThrow('internal address');
+  });
+});
+
+describe('guardedLookup', () => {
+  it.each(['127.0.0.1', '::1', '::ffff:127.0.0.1', '10.0.0.1', 'localhost'])('refuses to connect to %s', async hostname => {
+    await expect(lookupAddresses(hostname, false)).rejects.toThrow('internal address');
+  });
+
+  it('passes public addresses through in the shape the caller asked for', async () => {
+    await expect(lookupAddresses('8.8.8.8', false)).resolves.toBe('8.8.8.8');
+    await expect(lookupAddresses('8.8.8.8', true)).resolves.toEqual([{ address: '8.8.8.8', family: 4 }]);
+  });
+});
@@ -0,0 +1,131 @@
+import { createHmac } from 'node:crypto';
+import { LookupAddress, lookup } from 'node:dns';
+import { lookup as lookupAll } from 'node:dns/promises';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, LookupFunction, isIP } from 'node:net';
+import { abortableDelay } from '../services/renderErrors';
+import { RenderJob, WebhookDelivery } from './jobQueue';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-event-render-signature';
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 2000;
+const ATTEMPT_TIMEOUT_MS = 10_000;
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges; IPv4 rules also
+// match IPv4-mapped IPv6 addresses
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const isInternalAddress = (address: string) => INTERNAL_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+const isAllowedHost = (hostname: string, allowedHosts: string[]) => allowedHosts.includes(hostname.toLowerCase());
+
+// URL hostnames keep IPv6 literals in brackets
+const bareHostname = (url: URL) => url.hostname.replace(/^\[|\]$/g, '');
+
+/**
+ * Rejects webhook URLs that resolve to internal addresses, so jobs cannot make the server call
+ * services on its own network. Hosts in `allowedHosts` skip the check. Throws with the reason.
+ */
+export const checkWebhookTarget = async (url: string, allowedHosts: string[] = []): Promise<void> => {
+  const hostname = bareHostname(new URL(url));
+  if (isAllowedHost(hostname, allowedHosts)) return;
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookupAll(hostname, { all: true });
+  } catch {
+    throw new Error(`${hostname} does not resolve.`);
+  }
+  if (addresses.some(({ address }) => isInternalAddress(address))) {
+    throw new Error(`${hostname} resolves to an internal address.`);
+  }
+};
+
+// Checks the address actually connected to, so a DNS answer that changes after checkWebhookTarget cannot slip through
+export const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    const blocked = addresses.find(({ address }) => isInternalAddress(address));
+    if (blocked) return callback(new Error(`${hostname} resolves to an internal address (${blocked.address}).`), []);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Redirects are not followed: a 3xx counts as a failed attempt
+const postJson = (url: string, headers: Record<string, string>, body: string, allowedHosts: string[]) =>
+  new Promise<number>((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === 'https:' ? httpsRequest : httpRequest)(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      ...(isAllowedHost(bareHostname(target), allowedHosts) ? {} : { lookup: guardedLookup }),
+      signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+
+export interface WebhookOptions {
+  // Signs the body as `sha256=<hex HMAC>` so receivers can check it came from us
+  secret?: string;
+  // Hostnames trusted even when they resolve to internal addresses (JOBS_WEBHOOK_ALLOWED_HOSTS)
+  allowedHosts?: string[];
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+export const signWebhookBody = (body: string, secret: string): string =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+/**
+ * POSTs `payload` to the job's webhook URL, retrying with exponential backoff until a 2xx answer.
+ * Progress is recorded in `job.webhook`, so status polling shows whether delivery worked.
+ */
+export const deliverJobWebhook = async (
+  job: RenderJob,
+  payload: unknown,
+  { secret, allowedHosts = [], maxAttempts = MAX_ATTEMPTS, baseDelayMs = BASE_DELAY_MS }: WebhookOptions = {}
+): Promise<void> => {
+  const url = job.webhookUrl;
+  if (!url) return;
+  let delivery: WebhookDelivery = { url, status: 'pending', attempts: 0, lastError: null, deliveredAt: null };
+  const record = (changes: Partial<WebhookDelivery>) => {
+    delivery = { ...delivery, ...changes };
+    job.webhook = delivery;
+  };
+  record({});
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (secret) headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookBody(body, secret);
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    record({ attempts: attempt });
+    try {
+      // IP literals never go through the lookup, so they are checked here on every attempt
+      await checkWebhookTarget(url, allowedHosts);
+      const status = await postJson(url, headers, body, allowedHosts);
+      if (status >= 200 && status < 300) {
+        record({ status: 'delivered', lastError: null, deliveredAt: new Date().toISOString() });
+        return;
+      }
+      record({ lastError: `HTTP ${status}` });
+    } catch (error) {
+      record({ lastError: error instanceof Error ? error.message : String(error) });
+    }
+    if (attempt < maxAttempts) await abortableDelay(baseDelayMs * 2 ** (attempt - 1));
+  }
+  record({ status: 'failed' });
+  console.warn(`Webhook for job ${job.id} failed after ${maxAttempts} attempts: ${delivery.lastError}`);
+};
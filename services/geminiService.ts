@@ -1,5 +1,12 @@
-import { GoogleGenAI, GenerateContentResponse, Part, Modality, SafetySetting, HarmCategory, HarmBlockThreshold, Type } from "@google/genai";
-import { LightingType, ImagePart } from '../types';
+import { GoogleGenAI, GoogleGenAIOptions, GenerateContentResponse, Part, Modality, SafetySetting, HarmCategory, HarmBlockThreshold, FinishReason, Type } from "@google/genai";
+import { ImageInput, ImagePart, LightingConfig, OutputFormat, PromptReferences, PromptTemplateSet, RenderProvider, SceneAnalysis } from '../types';
+import { buildLightingPromptSection } from './lightingPrompt';
+import { buildReferenceInstruction } from './referencePrompt';
+import { fillTemplate } from './promptTemplates';
+import { getOutputFormatPromptVariables, resolveOutputFormat } from './outputFormat';
+import { RenderError, withRetry } from './renderErrors';
+import { blobToBase64, dataUrlToBlob } from './imageUtils';
+import { MATERIAL_FINISHES, parseSceneAnalysis } from './sceneAnalysis';
 
 // Default safety settings
 const safetySettings: SafetySetting[] = [
@@ -9,21 +16,46 @@ const safetySettings: SafetySetting[] = [
   { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
 ];
 
-const fileToPart = async (file: File): Promise<Part> => {
-  const base64EncodedData = await new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') resolve(reader.result.split(',')[1]);
-      else reject(new Error("Failed to read file as Data URL"));
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+// Image model used for the final render
+export const RENDER_MODEL = 'gemini-3-pro-image-preview';
+
+// The browser build gets its key from vite.config.ts; the proxy server (server/) passes its own
+let clientOptions: GoogleGenAIOptions = { apiKey: process.env.API_KEY! };
+
+/** Replaces the key (and optionally the upstream base URL) used for every following call. */
+export const configureGeminiClient = (options: GoogleGenAIOptions) => {
+  clientOptions = options;
+};
+
+const createClient = () => new GoogleGenAI(clientOptions);
+
+// Finish reasons that mean the output was withheld by a safety filter
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+const logRetry = (label: string) => (error: RenderError, attempt: number, delayMs: number) =>
+  console.warn(`${label} failed (${error.kind}: ${error.detail}); retry ${attempt} in ${Math.round(delayMs)} ms`);
 
-  return { inlineData: { data: base64EncodedData, mimeType: file.type } };
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new RenderError('safety', response.promptFeedback?.blockReasonMessage || blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_FINISH_REASONS.includes(finishReason)) throw new RenderError('safety', finishReason!);
 };
 
+// No FileReader, so the same calls also run inside the Node proxy server
+const fileToPart = async (file: Blob): Promise<Part> => ({
+  inlineData: { data: await blobToBase64(file), mimeType: file.type },
+});
+
 const handleApiResponse = (response: GenerateContentResponse, prompt: string): string => {
+  assertNotBlocked(response);
   const imagePart = response.candidates?.[0]?.content?.parts?.find(
     (part): part is ImagePart => (part as ImagePart).inlineData !== undefined
   );
@@ -34,7 +66,7 @@ const handleApiResponse = (response: GenerateContentResponse, prompt: string): s
     const textPart = response.candidates?.[0]?.content?.parts?.find((part) => typeof (part as {text?: string}).text === 'string');
     const textOutput = (textPart as {text?: string})?.text;
     console.error("API Response error. Full response:", JSON.stringify(response, null, 2));
-    throw new Error(`No se encontró imagen. ${textOutput ? `Mensaje del modelo: "${textOutput}"` : ''}`);
+    throw new RenderError('no_image', textOutput ? `Mensaje del modelo: "${textOutput}"` : '');
   }
 };
 
@@ -42,38 +74,111 @@ const handleApiResponse = (response: GenerateContentResponse, prompt: string): s
  * Detects scene elements. 
  * CAMBIO LIGERO: Pedir detalles de material (mate/brillante) para ayudar al realismo.
  */
-export const detectSceneElements = async (originalImages: File[]): Promise<string> => {
+export const detectSceneElements = async (originalImages: ImageInput[], templates: PromptTemplateSet, signal?: AbortSignal): Promise<string> => {
   if (originalImages.length === 0) return 'No images provided.';
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+  const ai = createClient();
   const imageParts = await Promise.all(originalImages.map(file => fileToPart(file)));
 
-  const prompt = `
-  TASK: Analyze the geometry and materials of this SketchUp scene for a HIGH-END RENDER.
-  OUTPUT FORMAT: Technical List.
-  
-  1. Identify the CAMERA ANGLE (e.g., Wide shot, Eye level).
-  2. List the MATERIALS mapped to specific objects.
-     - Specify texture qualities if visible (e.g. "Shiny metal", "Rough wood", "Velvet fabric").
-     - Example: "Round tables -> White linen tablecloth (matte)."
-  3. Identify EMPTY SPACES (e.g., "Right foreground is empty grass").
-  
-  Note: Be literal. Do not invent objects. Focus on material properties.
-  `;
-
-  try {
+  const prompt = templates.detection.body;
+
+  return withRetry(async () => {
     const response = await ai.models.generateContent({
       model: 'gemini-3-pro-image-preview',
       contents: [...imageParts, { text: prompt }],
-      config: { safetySettings },
+      config: { safetySettings, abortSignal: signal },
     });
+    assertNotBlocked(response);
     return response.text?.trim() || 'No description available.';
-  } catch (error: any) {
-    if (error.message?.includes("Requested entity was not found")) {
-      throw new Error("Invalid API Key. Please select a valid API key from a paid GCP project.");
-    }
-    throw new Error(`Error detecting elements: ${error.message}`);
-  }
+  }, { onRetry: logRetry('Scene detection'), signal });
+};
+
+// Text model with structured-output support, used for the scene analysis
+const ANALYSIS_MODEL = 'gemini-3-flash-preview';
+
+const SCENE_ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    camera: {
+      type: Type.OBJECT,
+      properties: {
+        angle: { type: Type.STRING, description: 'Shot type and direction, e.g. "Wide shot, frontal".' },
+        height: { type: Type.STRING, description: 'Camera height, e.g. "Eye level".' },
+      },
+      required: ['angle', 'height'],
+    },
+    objects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: 'Object or surface as seen in the model, e.g. "Round tables".' },
+          material: { type: Type.STRING, description: 'Material to render it with, e.g. "White linen tablecloth".' },
+          finish: { type: Type.STRING, enum: MATERIAL_FINISHES },
+        },
+        required: ['name', 'material', 'finish'],
+      },
+    },
+    emptyRegions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING, description: 'Area that must stay empty, e.g. "Right foreground: empty grass".' },
+    },
+    guestCapacity: {
+      type: Type.INTEGER,
+      nullable: true,
+      description: 'Estimated number of seated guests from visible chairs/tables; null if not applicable.',
+    },
+  },
+  required: ['camera', 'objects', 'emptyRegions', 'guestCapacity'],
+  propertyOrdering: ['camera', 'objects', 'emptyRegions', 'guestCapacity'],
+};
+
+/**
+ * Structured version of detectSceneElements: same detection template, answered as JSON
+ * following SCENE_ANALYSIS_SCHEMA.
+ */
+export const analyzeScene = async (originalImage: ImageInput, templates: PromptTemplateSet, signal?: AbortSignal): Promise<SceneAnalysis> => {
+  const ai = createClient();
+  const imagePart = await fileToPart(originalImage);
+  // The schema replaces the list layout the template asks for
+  const prompt = `${templates.detection.body}
+  Return the analysis as JSON following the response schema.`;
+
+  return withRetry(async () => {
+    const response = await ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: [imagePart, { text: prompt }],
+      config: {
+        safetySettings,
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: SCENE_ANALYSIS_SCHEMA,
+      },
+    });
+    assertNotBlocked(response);
+    return parseSceneAnalysis(JSON.parse(response.text || 'null'));
+  }, { onRetry: logRetry('Scene analysis'), signal });
+};
+
+/** The request sent to the text model that writes the final render prompt. */
+export const buildRefinementPrompt = (
+  sceneElementsDescription: string,
+  lighting: LightingConfig,
+  references: PromptReferences,
+  templates: PromptTemplateSet
+): string => {
+  // Every LightingConfig field (type, temperature, exposure, contrast) becomes an explicit instruction
+  const lightingSection = buildLightingPromptSection(lighting, templates.lighting.body);
+
+  // Ad-hoc references plus named library swatches
+  const referenceInstruction = buildReferenceInstruction(references);
+
+  return fillTemplate(templates.refinement.body, {
+    ...getOutputFormatPromptVariables(resolveOutputFormat(lighting)),
+    lightingSection,
+    sceneDescription: sceneElementsDescription,
+    referenceInstruction,
+  });
 };
 
 /**
@@ -82,139 +187,141 @@ export const detectSceneElements = async (originalImages: File[]): Promise<strin
  */
 export const refinePromptForGeneration = async (
   sceneElementsDescription: string,
-  lightingType: LightingType,
-  advancedLightingInstructions: string,
-  // Corrected types to match LightingConfig interface from types.ts
-  colorTemperature: 'warm' | 'neutral' | 'cool' | 'golden',
-  exposureCompensation: 'standard' | 'brighter' | 'darker' | 'very_bright' | 'very_dark',
-  contrastEnhancement: 'natural' | 'enhanced' | 'soft' | 'high_contrast' | 'low_contrast',
-  hasReferenceImages: boolean = false
+  lighting: LightingConfig,
+  references: PromptReferences,
+  templates: PromptTemplateSet,
+  signal?: AbortSignal
 ): Promise<string> => {
-  
-  let lightingDetails = '';
-  switch (lightingType) {
-    case LightingType.Day: lightingDetails = "Lighting: Natural daylight. Brightness: Normal. Shadows: Soft and realistic."; break;
-    case LightingType.Sunset: lightingDetails = "Lighting: Golden hour. Warm tones. Long shadows."; break;
-    case LightingType.Night: lightingDetails = "Lighting: NIGHT MODE. Deep blue sky, dark environment. Light only from candles/lamps. Cinematic contrast."; break;
-  }
+  const refinementPrompt = buildRefinementPrompt(sceneElementsDescription, lighting, references, templates);
 
-  const referenceInstruction = hasReferenceImages
-    ? `REFERENCES: Use attached images for TEXTURE and MATERIAL definitions (e.g. fabric weave, flower petals). Do NOT copy the object shapes.`
-    : '';
-
-  // PROMPT OPTIMIZADO PARA REALISMO DE TEXTURAS
-  const refinementPrompt = `
-  ### SYSTEM INSTRUCTION: HIGH-FIDELITY TEXTURE ENGINE ###
-  
-  You are a Technical Rendering Engine. Your goal is to apply **Ultra-Photorealistic 8K Textures** to a strict geometry wireframe.
-
-  ### CRITICAL OUTPUT PARAMETERS ###
-  1. **ASPECT RATIO:** 16:9 (Landscape).
-  2. **GEOMETRY:** LOCKED. Match input exactly. No new objects.
-  3. **TEXTURE QUALITY (PRIORITY):** Apply PBR (Physically Based Rendering) materials.
-     - **Fabrics:** Show micro-details (weave, seams, natural folds).
-     - **Metals:** Realistic reflection, anisotropy, and gloss.
-     - **Glass:** Physically accurate refraction and caustics.
-     - **Vegetation:** Subsurface scattering on leaves/petals.
-     - **Overall:** Eliminate "cartoonish" or "plastic" looks. Look like a high-end architectural photograph.
-
-  ### SCENE DATA ###
-  **Lighting:** ${lightingDetails} ${advancedLightingInstructions}
-  **Atmosphere:** Color Temp: ${colorTemperature}, Contrast: ${contrastEnhancement}. Style: Award-Winning Event Photography.
-  **Materials to Render:**
-  ${sceneElementsDescription}
-
-  ${referenceInstruction}
-
-  Generate a precise image generation prompt that enforces a 16:9 aspect ratio, strict geometry, AND maximizes texture realism (8k, PBR).
-  `;
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-  try {
+  const ai = createClient();
+  return withRetry(async () => {
     const response = await ai.models.generateContent({
       model: "gemini-3-flash-preview",
       contents: refinementPrompt,
+      config: { abortSignal: signal },
     });
+    assertNotBlocked(response);
     return response.text?.trim() || "Prompt error.";
-  } catch (error: any) {
-    throw new Error(`Error refining prompt: ${error.message}`);
-  }
+  }, { onRetry: logRetry('Prompt refinement'), signal });
 };
 
 /**
  * Generate Event Render
- * Mantiene la configuración 16:9 intacta.
+ * Formato de salida (relación de aspecto y tamaño) configurable; 16:9 por defecto.
  */
-const generateEventRender = async (originalImage: File, finalPrompt: string, referenceImages: File[]): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+export const generateEventRender = async (
+  originalImage: ImageInput,
+  finalPrompt: string,
+  referenceImages: ImageInput[],
+  outputFormat: OutputFormat,
+  signal?: AbortSignal
+): Promise<string> => {
+  const ai = createClient();
   const parts = [
     await fileToPart(originalImage),
     ...await Promise.all(referenceImages.map(f => fileToPart(f))),
     { text: finalPrompt }
   ];
 
-  try {
+  return withRetry(async () => {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
+      model: RENDER_MODEL,
       contents: { parts },
       config: { 
         responseModalities: [Modality.IMAGE], 
         safetySettings,
-        generationConfig: {
-            aspectRatio: "16:9",
-            responseMimeType: "image/jpeg"
+        abortSignal: signal,
+        imageConfig: {
+            aspectRatio: outputFormat.aspectRatio,
+            imageSize: outputFormat.imageSize,
         }
       },
     });
     return handleApiResponse(response, finalPrompt);
-  } catch (error: any) {
-    if (error.message?.includes("Requested entity was not found")) throw new Error("Invalid API Key.");
-    throw error;
-  }
+  }, { onRetry: logRetry('Render'), signal });
 };
 
 /**
- * Main generation function.
- * CAMBIO: "Strict Lock" ahora incluye instrucciones de calidad 8K.
+ * Localized edit of a finished render.
+ * The model gets the render, a black/white mask (white = editable) and the designer's instruction;
+ * callers composite the result back through the mask so untouched pixels stay identical.
  */
-export const generateSingleRender = async (
-  sketchupImage: File,
-  sceneDescription: string,
-  referenceImages: File[],
-  lightingType: LightingType,
-  advancedLightingInstructions: string,
-  colorTemperature: 'warm' | 'neutral' | 'cool' | 'golden',
-  exposureCompensation: 'standard' | 'brighter' | 'darker' | 'very_bright' | 'very_dark',
-  contrastEnhancement: 'natural' | 'enhanced' | 'soft' | 'high_contrast' | 'low_contrast',
-  onProgress: (message: string) => void
-): Promise<{ url: string | null; error: string | null }> => {
-  
-  onProgress(`Configurando texturas PBR y geometría...`);
-
-  if (!sceneDescription.trim()) return { url: null, error: 'Falta descripción.' };
-
-  try {
-    const finalPrompt = await refinePromptForGeneration(
-      sceneDescription,
-      lightingType,
-      advancedLightingInstructions,
-      colorTemperature,
-      exposureCompensation,
-      contrastEnhancement,
-      referenceImages.length > 0
-    );
-
-    // Prompt final reforzado con calidad 8K y realismo
-    const strictLock = " --aspect-ratio 16:9 [IMPORTANT: OUTPUT MUST BE 16:9 LANDSCAPE. NO SQUARE. NO CROPPING. KEEP EMPTY AREAS EMPTY. RENDER WITH 8K PHOTOREALISTIC TEXTURES AND PBR MATERIALS.]";
-    const combinedPrompt = finalPrompt + strictLock;
-
-    console.log("Prompt enviado:", combinedPrompt);
-    onProgress(`Renderizando escena en 16:9 con alta fidelidad...`);
-    
-    const imageUrl = await generateEventRender(sketchupImage, combinedPrompt, referenceImages);
-    return { url: imageUrl, error: null };
-  } catch (error: any) {
-    console.error(error);
-    return { url: null, error: error.message || 'Error desconocido' };
-  }
-};
\ No newline at end of file
+export const editEventRender = async (
+  renderUrl: string,
+  mask: Blob,
+  instruction: string,
+  outputFormat: OutputFormat,
+  templates: PromptTemplateSet,
+  signal?: AbortSignal
+): Promise<string> => {
+  const ai = createClient();
+  const prompt = fillTemplate(templates.edit.body, { instruction, aspectRatio: outputFormat.aspectRatio });
+  const parts = [
+    await fileToPart(dataUrlToBlob(renderUrl)),
+    await fileToPart(mask),
+    { text: prompt },
+  ];
+
+  return withRetry(async () => {
+    const response = await ai.models.generateContent({
+      model: RENDER_MODEL,
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        safetySettings,
+        abortSignal: signal,
+        imageConfig: {
+            aspectRatio: outputFormat.aspectRatio,
+            imageSize: outputFormat.imageSize,
+        }
+      },
+    });
+    return handleApiResponse(response, prompt);
+  }, { onRetry: logRetry('Region edit'), signal });
+};
+
+/**
+ * Follow-up refinement ("same thing, but warmer candles"): the previous render is the input,
+ * so composition and geometry carry over and only the requested change is applied.
+ */
+export const reviseEventRender = async (
+  renderUrl: string,
+  instruction: string,
+  outputFormat: OutputFormat,
+  templates: PromptTemplateSet,
+  signal?: AbortSignal
+): Promise<string> => {
+  const ai = createClient();
+  const prompt = fillTemplate(templates.revise.body, { instruction, aspectRatio: outputFormat.aspectRatio });
+  const parts = [await fileToPart(dataUrlToBlob(renderUrl)), { text: prompt }];
+
+  return withRetry(async () => {
+    const response = await ai.models.generateContent({
+      model: RENDER_MODEL,
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        safetySettings,
+        abortSignal: signal,
+        imageConfig: {
+            aspectRatio: outputFormat.aspectRatio,
+            imageSize: outputFormat.imageSize,
+        }
+      },
+    });
+    return handleApiResponse(response, prompt);
+  }, { onRetry: logRetry('Render revision'), signal });
+};
+
+export const geminiRenderProvider: RenderProvider = {
+  name: 'gemini',
+  requiresApiKey: true,
+  modelName: RENDER_MODEL,
+  detect: detectSceneElements,
+  analyze: analyzeScene,
+  refine: refinePromptForGeneration,
+  render: generateEventRender,
+  edit: editEventRender,
+  revise: reviseEventRender,
+};
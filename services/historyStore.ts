@@ -0,0 +1,97 @@
+import { LightingConfig, RenderHistoryEntry, RenderProvider, RenderResult, SceneAnalysis } from '../types';
+import { createThumbnail } from './imageUtils';
+import { HISTORY_STORE, isQuotaError, withStore } from './localDatabase';
+
+// How many of the oldest entries are dropped when the browser quota is exceeded
+const QUOTA_PRUNE_COUNT = 5;
+
+type HistoryListener = () => void;
+const listeners = new Set<HistoryListener>();
+
+/** Subscribes to history changes (add/delete). Returns the unsubscribe function. */
+export const subscribeToHistory = (listener: HistoryListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+/** Lists every stored render, newest first. */
+export const listHistoryEntries = async (): Promise<RenderHistoryEntry[]> => {
+  const entries = await withStore(HISTORY_STORE, 'readonly', store => store.getAll() as IDBRequest<RenderHistoryEntry[]>);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteHistoryEntry = async (id: number): Promise<void> => {
+  await withStore(HISTORY_STORE, 'readwrite', store => store.delete(id));
+  notifyListeners();
+};
+
+const pruneOldestEntries = async (count: number): Promise<number> => {
+  const oldest = (await listHistoryEntries()).slice(-count);
+  for (const entry of oldest) {
+    if (entry.id !== undefined) await withStore(HISTORY_STORE, 'readwrite', store => store.delete(entry.id!));
+  }
+  return oldest.length;
+};
+
+/**
+ * Stores an entry. When the browser quota is exceeded the oldest entries are pruned
+ * once and the write is retried; a second failure is reported to the caller.
+ */
+export const addHistoryEntry = async (entry: RenderHistoryEntry): Promise<number> => {
+  try {
+    const id = await withStore(HISTORY_STORE, 'readwrite', store => store.add(entry));
+    notifyListeners();
+    return id as number;
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    const pruned = await pruneOldestEntries(QUOTA_PRUNE_COUNT);
+    if (pruned === 0) throw new Error('No hay espacio suficiente para guardar el render en el historial local.');
+    try {
+      const id = await withStore(HISTORY_STORE, 'readwrite', store => store.add(entry));
+      console.warn(`Historial lleno: se eliminaron los ${pruned} renders más antiguos.`);
+      notifyListeners();
+      return id as number;
+    } catch (retryError) {
+      if (isQuotaError(retryError)) {
+        throw new Error('El historial local está lleno. Elimina renders antiguos para liberar espacio.');
+      }
+      throw retryError;
+    }
+  }
+};
+
+/** Browser storage usage for this origin, when the Storage API is available. */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/** Builds a history entry from a successful render and stores it. */
+export const saveRenderToHistory = async (
+  provider: RenderProvider,
+  sketchupImage: File,
+  sceneDescription: string,
+  referenceImages: File[],
+  lighting: LightingConfig,
+  result: RenderResult,
+  sceneAnalysis: SceneAnalysis | null = null
+): Promise<void> => {
+  if (!result.url) return;
+  const referenceThumbnails = await Promise.all(referenceImages.map(file => createThumbnail(file)));
+  await addHistoryEntry({
+    createdAt: Date.now(),
+    sceneName: sketchupImage.name,
+    sketchupImage,
+    sceneDescription,
+    refinedPrompt: result.prompt ?? '',
+    lighting,
+    referenceThumbnails,
+    renderUrl: result.url,
+    modelName: provider.modelName,
+    templateVersions: result.templateVersions,
+    sceneAnalysis,
+  });
+};
@@ -0,0 +1,132 @@
+import { loadImage } from './imageUtils';
+import { detectEdges, toGrayscale } from './renderValidation';
+
+const CELL_WIDTH = 960;
+const LABEL_HEIGHT = 56;
+const GAP = 16;
+
+/**
+ * Lays out labelled images in a grid on a single canvas and returns it as a PNG data URL.
+ * Cells without an image (failed renders) keep their slot as a placeholder so the grid stays aligned.
+ * Cell height follows the aspect ratio of the first image.
+ */
+export const composeComparisonSheet = async (
+  cells: { url: string | null; label: string }[],
+  columns: number
+): Promise<string> => {
+  if (!cells.some(cell => cell.url)) throw new Error('No hay imágenes para componer.');
+
+  const images = await Promise.all(cells.map(cell => (cell.url ? loadImage(cell.url) : null)));
+  const first = images.find(image => image !== null)!;
+  const cols = Math.max(1, Math.min(columns, cells.length));
+  const rows = Math.ceil(cells.length / cols);
+  const imageHeight = Math.round(CELL_WIDTH * (first.naturalHeight / first.naturalWidth));
+  const cellHeight = imageHeight + LABEL_HEIGHT;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cols * CELL_WIDTH + (cols + 1) * GAP;
+  canvas.height = rows * cellHeight + (rows + 1) * GAP;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('El navegador no soporta canvas 2D.');
+
+  ctx.fillStyle = '#1e1b4b';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.font = 'bold 28px sans-serif';
+  ctx.textBaseline = 'middle';
+
+  images.forEach((image, index) => {
+    const x = GAP + (index % cols) * (CELL_WIDTH + GAP);
+    const y = GAP + Math.floor(index / cols) * (cellHeight + GAP);
+    if (image) {
+      ctx.drawImage(image, x, y, CELL_WIDTH, imageHeight);
+    } else {
+      ctx.fillStyle = '#312e81';
+      ctx.fillRect(x, y, CELL_WIDTH, imageHeight);
+      ctx.fillStyle = '#fca5a5';
+      ctx.textAlign = 'center';
+      ctx.fillText('Sin imagen', x + CELL_WIDTH / 2, y + imageHeight / 2);
+      ctx.textAlign = 'start';
+    }
+    ctx.fillStyle = '#e0e7ff';
+    ctx.fillText(cells[index].label, x + 8, y + imageHeight + LABEL_HEIGHT / 2);
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+// Soft edge (in px) applied to the mask so pasted regions blend into the original
+const MASK_FEATHER_PX = 4;
+// Relative aspect-ratio difference still treated as the same frame (rounding of model output sizes)
+const MAX_EDIT_ASPECT_DRIFT = 0.02;
+
+/**
+ * Pastes the masked area of `editedUrl` onto `originalUrl`, leaving every pixel outside the mask
+ * untouched. The mask is white where the edit applies; the output has the original's size (PNG data URL).
+ * An edit in another aspect ratio is rejected, since stretching it would distort the pasted region.
+ */
+export const composeMaskedEdit = async (originalUrl: string, editedUrl: string, maskUrl: string): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+  const drift = Math.abs((edited.naturalWidth / edited.naturalHeight) / (width / height) - 1);
+  if (drift > MAX_EDIT_ASPECT_DRIFT) {
+    throw new Error(`La edición llegó con otra proporción (${edited.naturalWidth}×${edited.naturalHeight} frente a ${width}×${height}); vuelve a intentarlo.`);
+  }
+
+  const createLayer = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('El navegador no soporta canvas 2D.');
+    return { canvas, ctx };
+  };
+
+  const maskLayer = createLayer();
+  maskLayer.ctx.filter = `blur(${MASK_FEATHER_PX}px)`;
+  maskLayer.ctx.drawImage(mask, 0, 0, width, height);
+  const maskPixels = maskLayer.ctx.getImageData(0, 0, width, height).data;
+
+  // The model may answer at another resolution; scale it back onto the original frame
+  const editLayer = createLayer();
+  editLayer.ctx.drawImage(edited, 0, 0, width, height);
+  const editData = editLayer.ctx.getImageData(0, 0, width, height);
+  for (let i = 0; i < editData.data.length; i += 4) {
+    editData.data[i + 3] = maskPixels[i];
+  }
+  editLayer.ctx.putImageData(editData, 0, 0);
+
+  const output = createLayer();
+  output.ctx.drawImage(original, 0, 0, width, height);
+  output.ctx.drawImage(editLayer.canvas, 0, 0);
+  return output.canvas.toDataURL('image/png');
+};
+
+// Long side of the edge map drawn over renders; CSS stretches it to the displayed size
+const EDGE_OVERLAY_SIZE = 1024;
+const EDGE_OVERLAY_RGB = [34, 211, 238];
+
+/**
+ * Traces the outlines of `sourceUrl` with the same centre crop used for validation and returns them
+ * as a transparent PNG data URL with the given aspect ratio, ready to lay over the render.
+ */
+export const composeEdgeOverlay = async (sourceUrl: string, aspectRatio: number): Promise<string> => {
+  const source = await loadImage(sourceUrl);
+  const width = aspectRatio >= 1 ? EDGE_OVERLAY_SIZE : Math.round(EDGE_OVERLAY_SIZE * aspectRatio);
+  const height = aspectRatio >= 1 ? Math.round(EDGE_OVERLAY_SIZE / aspectRatio) : EDGE_OVERLAY_SIZE;
+  const edges = detectEdges(toGrayscale(source, width, height), width, height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('El navegador no soporta canvas 2D.');
+  const overlay = ctx.createImageData(width, height);
+  edges.forEach((edge, i) => {
+    if (!edge) return;
+    overlay.data.set(EDGE_OVERLAY_RGB, i * 4);
+    overlay.data[i * 4 + 3] = 255;
+  });
+  ctx.putImageData(overlay, 0, 0);
+  return canvas.toDataURL('image/png');
+};
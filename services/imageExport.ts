@@ -0,0 +1,108 @@
+import { loadImage } from './imageUtils';
+import { embedImageMetadata } from './imageMetadata';
+import { LIGHTING_TYPE_LABELS, COLOR_TEMPERATURE_LABELS } from '../constants';
+import { DownloadSettings, ImageFileFormat, LightingConfig, RenderFileMetadata } from '../types';
+
+const STORAGE_KEY = 'event-render-ai.downloadSettings';
+
+export const IMAGE_FILE_FORMATS: Record<ImageFileFormat, { label: string; mimeType: string; extension: string; lossy: boolean }> = {
+  png: { label: 'PNG (sin pérdida)', mimeType: 'image/png', extension: 'png', lossy: false },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true },
+};
+
+export const FILENAME_PLACEHOLDERS = ['project', 'view', 'lighting', 'version', 'timestamp'] as const;
+
+export type FilenameFields = Record<(typeof FILENAME_PLACEHOLDERS)[number], string>;
+
+export const DEFAULT_DOWNLOAD_SETTINGS: DownloadSettings = {
+  format: 'png',
+  quality: 0.92,
+  filenameTemplate: '{{project}}_{{view}}_{{lighting}}_{{version}}_{{timestamp}}',
+  projectName: '',
+};
+
+// localStorage is missing outside the browser (e.g. Node); settings then fall back to the defaults
+export const loadDownloadSettings = (): DownloadSettings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_DOWNLOAD_SETTINGS;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      format: parsed?.format in IMAGE_FILE_FORMATS ? parsed.format : DEFAULT_DOWNLOAD_SETTINGS.format,
+      quality: typeof parsed?.quality === 'number' ? Math.min(1, Math.max(0.1, parsed.quality)) : DEFAULT_DOWNLOAD_SETTINGS.quality,
+      filenameTemplate: typeof parsed?.filenameTemplate === 'string' && parsed.filenameTemplate.trim()
+        ? parsed.filenameTemplate
+        : DEFAULT_DOWNLOAD_SETTINGS.filenameTemplate,
+      projectName: typeof parsed?.projectName === 'string' ? parsed.projectName : '',
+    };
+  } catch (error) {
+    console.error('Stored download settings are corrupt, using defaults:', error);
+    return DEFAULT_DOWNLOAD_SETTINGS;
+  }
+};
+
+export const saveDownloadSettings = (settings: DownloadSettings) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const describeLightingForFilename = (lighting: LightingConfig): string =>
+  `${LIGHTING_TYPE_LABELS[lighting.lightingType]}-${COLOR_TEMPERATURE_LABELS[lighting.colorTemperature]}`;
+
+// 2026-10-18T09:05:03 -> 20261018-090503, in local time
+export const formatFilenameTimestamp = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+// Accents are dropped and anything outside [A-Za-z0-9._-] becomes "-", so names are safe on every OS
+const sanitizeFilenamePart = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Fills the {{placeholder}} fields of a filename template and appends the extension.
+ * Empty fields are dropped together with the separator that preceded them.
+ */
+export const buildDownloadFilename = (template: string, fields: FilenameFields, extension: string): string => {
+  const name = template
+    .replace(/\{\{(\w+)\}\}/g, (_, key: string) => (key in fields ? sanitizeFilenamePart(fields[key as keyof FilenameFields]) : ''))
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/([_-])[_-]+/g, '$1')
+    .replace(/^[._-]+|[._-]+$/g, '');
+  return `${name || 'event_render'}.${extension}`;
+};
+
+/**
+ * Re-encodes a render in the chosen format and embeds how it was made.
+ * JPEG has no alpha channel, so transparent areas are flattened onto white.
+ */
+export const encodeRenderFile = async (
+  renderUrl: string,
+  format: ImageFileFormat,
+  quality: number,
+  metadata: RenderFileMetadata
+): Promise<Blob> => {
+  const { mimeType, lossy } = IMAGE_FILE_FORMATS[format];
+  const image = await loadImage(renderUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('El navegador no soporta canvas 2D.');
+  if (format === 'jpeg') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(image, 0, 0);
+
+  const encoded = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, lossy ? quality : undefined));
+  // Browsers without an encoder for the type silently fall back to PNG
+  if (!encoded || encoded.type !== mimeType) {
+    throw new Error(`Este navegador no puede guardar imágenes ${IMAGE_FILE_FORMATS[format].label}.`);
+  }
+  return embedImageMetadata(encoded, metadata);
+};
@@ -0,0 +1,183 @@
+import { RenderFileMetadata } from '../types';
+
+// Works on raw bytes only (no canvas or FileReader), so it also runs in Node
+
+const XMP_NAMESPACE = 'https://event-render-ai.app/ns/1.0/';
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+// A JPEG segment length is 16 bits and includes its own two bytes
+const MAX_JPEG_SEGMENT = 0xffff - 2;
+
+const encoder = new TextEncoder();
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** XMP packet with the prompt as dc:description and the model and lighting under our own namespace. */
+export const buildXmpPacket = (metadata: RenderFileMetadata): string => [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:er="${XMP_NAMESPACE}">`,
+  `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+  `<xmp:CreatorTool>Event Render AI (${escapeXml(metadata.modelName)})</xmp:CreatorTool>`,
+  `<xmp:CreateDate>${escapeXml(metadata.createdAt)}</xmp:CreateDate>`,
+  `<er:Model>${escapeXml(metadata.modelName)}</er:Model>`,
+  `<er:Lighting>${escapeXml(JSON.stringify(metadata.lighting))}</er:Lighting>`,
+  '</rdf:Description>',
+  '</rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="w"?>',
+].join('\n');
+
+// iTXt: keyword, NUL, no compression, empty language and translated keyword, UTF-8 text
+const pngTextChunk = (keyword: string, text: string): Uint8Array => {
+  const body = concatBytes([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]);
+  const typeAndBody = concatBytes([encoder.encode('iTXt'), body]);
+  const chunk = new Uint8Array(12 + body.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length);
+  chunk.set(typeAndBody, 4);
+  view.setUint32(8 + body.length, crc32(typeAndBody));
+  return chunk;
+};
+
+const embedInPng = (bytes: Uint8Array, metadata: RenderFileMetadata): Uint8Array<ArrayBuffer> => {
+  // IEND is always the last 12 bytes of a well-formed PNG
+  const iendOffset = bytes.length - 12;
+  if (iendOffset < 8 || new TextDecoder().decode(bytes.subarray(iendOffset + 4, iendOffset + 8)) !== 'IEND') {
+    throw new Error('PNG no válido.');
+  }
+  const chunks = [
+    pngTextChunk('Software', 'Event Render AI'),
+    pngTextChunk('Model', metadata.modelName),
+    pngTextChunk('Prompt', metadata.prompt),
+    pngTextChunk('Lighting', JSON.stringify(metadata.lighting)),
+    pngTextChunk('Creation Time', metadata.createdAt),
+    pngTextChunk(XMP_PNG_KEYWORD, buildXmpPacket(metadata)),
+  ];
+  return concatBytes([bytes.subarray(0, iendOffset), ...chunks, bytes.subarray(iendOffset)]);
+};
+
+const embedInJpeg = (bytes: Uint8Array, metadata: RenderFileMetadata): Uint8Array<ArrayBuffer> => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('JPEG no válido.');
+  const header = encoder.encode(XMP_JPEG_HEADER);
+  // Very long prompts are shortened until the packet fits in one APP1 segment
+  let prompt = metadata.prompt;
+  let xmp = encoder.encode(buildXmpPacket(metadata));
+  while (header.length + xmp.length > MAX_JPEG_SEGMENT - 2) {
+    prompt = `${prompt.slice(0, Math.floor(prompt.length / 2))}…`;
+    xmp = encoder.encode(buildXmpPacket({ ...metadata, prompt }));
+  }
+  const segment = new Uint8Array(4 + header.length + xmp.length);
+  segment.set([0xff, 0xe1]);
+  new DataView(segment.buffer).setUint16(2, 2 + header.length + xmp.length);
+  segment.set(header, 4);
+  segment.set(xmp, 4 + header.length);
+
+  // Keep a leading JFIF APP0 segment first, as readers expect
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+const riffChunk = (fourCC: string, payload: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + payload.length + (payload.length % 2));
+  chunk.set(encoder.encode(fourCC));
+  new DataView(chunk.buffer).setUint32(4, payload.length, true);
+  chunk.set(payload, 8);
+  return chunk;
+};
+
+// Canvas size of a simple-format WebP, read from its VP8 or VP8L bitstream header
+const readWebpSize = (fourCC: string, payload: Uint8Array): { width: number; height: number } => {
+  if (fourCC === 'VP8 ') {
+    return { width: ((payload[7] << 8) | payload[6]) & 0x3fff, height: ((payload[9] << 8) | payload[8]) & 0x3fff };
+  }
+  const bits = payload[1] | (payload[2] << 8) | (payload[3] << 16) | (payload[4] << 24);
+  return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+};
+
+const VP8X_ALPHA = 0x10;
+const VP8X_XMP = 0x04;
+
+const embedInWebp = (bytes: Uint8Array, metadata: RenderFileMetadata): Uint8Array<ArrayBuffer> => {
+  const decoder = new TextDecoder();
+  if (decoder.decode(bytes.subarray(0, 4)) !== 'RIFF' || decoder.decode(bytes.subarray(8, 12)) !== 'WEBP') {
+    throw new Error('WebP no válido.');
+  }
+  const chunks: { fourCC: string; payload: Uint8Array }[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = new DataView(bytes.buffer, bytes.byteOffset + offset + 4, 4).getUint32(0, true);
+    chunks.push({ fourCC: decoder.decode(bytes.subarray(offset, offset + 4)), payload: bytes.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  if (chunks.length === 0) throw new Error('WebP no válido.');
+
+  // XMP needs the extended format: add a VP8X header to simple files, or flag the existing one
+  let header: Uint8Array;
+  if (chunks[0].fourCC === 'VP8X') {
+    header = Uint8Array.from(chunks.shift()!.payload);
+    header[0] |= VP8X_XMP;
+  } else {
+    const { width, height } = readWebpSize(chunks[0].fourCC, chunks[0].payload);
+    header = new Uint8Array(10);
+    header[0] = VP8X_XMP | (chunks[0].fourCC === 'VP8L' ? VP8X_ALPHA : 0);
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+  }
+  const body = concatBytes([
+    encoder.encode('WEBP'),
+    riffChunk('VP8X', header),
+    ...chunks.filter(chunk => chunk.fourCC !== 'XMP ').map(chunk => riffChunk(chunk.fourCC, chunk.payload)),
+    riffChunk('XMP ', encoder.encode(buildXmpPacket(metadata))),
+  ]);
+  const riffHeader = new Uint8Array(8);
+  riffHeader.set(encoder.encode('RIFF'));
+  new DataView(riffHeader.buffer).setUint32(4, body.length, true);
+  return concatBytes([riffHeader, body]);
+};
+
+/**
+ * Returns a copy of the image with `metadata` embedded: iTXt chunks plus XMP for PNG,
+ * an XMP APP1 segment for JPEG and an XMP chunk for WebP. Other types are returned unchanged.
+ */
+export const embedImageMetadata = async (image: Blob, metadata: RenderFileMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  switch (image.type) {
+    case 'image/png':
+      return new Blob([embedInPng(bytes, metadata)], { type: image.type });
+    case 'image/jpeg':
+      return new Blob([embedInJpeg(bytes, metadata)], { type: image.type });
+    case 'image/webp':
+      return new Blob([embedInWebp(bytes, metadata)], { type: image.type });
+    default:
+      return image;
+  }
+};
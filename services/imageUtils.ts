@@ -0,0 +1,80 @@
+import { ImageInput } from '../types';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('No se pudo cargar la imagen.'));
+    image.src = src;
+  });
+
+/**
+ * Downscales an image (File/Blob or URL) so its longest side is at most `maxSize`
+ * and returns it as a JPEG data URL. Used for history/project thumbnails.
+ */
+export const createThumbnail = async (source: Blob | string, maxSize: number = 256): Promise<string> => {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('El navegador no soporta canvas 2D.');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } finally {
+    if (typeof source !== 'string') URL.revokeObjectURL(url);
+  }
+};
+
+/** Converts a data URL (base64 or URL-encoded) into a Blob. */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const match = dataUrl.match(/^data:([^;,]+)(;[^,]*)?,(.*)$/s);
+  if (!match) throw new Error('URL de datos no válida.');
+  const [, mimeType, params = '', payload] = match;
+  if (params.includes(';base64')) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+  }
+  return new Blob([decodeURIComponent(payload)], { type: mimeType });
+};
+
+/** Base64 of a Blob's bytes; works in the browser and in Node (no FileReader). */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Names a Blob so it can be passed to a RenderProvider. Unlike `new File()` this does not need
+ * the File class, which older Node versions lack.
+ */
+export const createImageInput = (data: Blob | Uint8Array<ArrayBuffer>, name: string, mimeType?: string): ImageInput =>
+  Object.assign(new Blob([data], { type: mimeType ?? (data instanceof Blob ? data.type : '') }), { name });
+
+export const blobToDataUrl = async (blob: Blob): Promise<string> =>
+  `data:${blob.type || 'application/octet-stream'};base64,${await blobToBase64(blob)}`;
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/gif': 'gif',
+};
+
+export const extensionForMimeType = (mimeType: string): string => EXTENSION_BY_MIME[mimeType] ?? 'bin';
+
+export const mimeTypeForExtension = (extension: string): string => {
+  const normalized = extension.toLowerCase() === 'jpeg' ? 'jpg' : extension.toLowerCase();
+  return Object.keys(EXTENSION_BY_MIME).find(mimeType => EXTENSION_BY_MIME[mimeType] === normalized) ?? 'application/octet-stream';
+};
@@ -0,0 +1,190 @@
+import { ImageRotation, InputImageEdits, InputPreprocessSettings, PixelRect } from '../types';
+import { IMAGE_FILE_FORMATS } from './imageExport';
+
+const STORAGE_KEY = 'event-render-ai.inputPreprocessSettings';
+
+// Longest side sent to the model; Gemini downsamples larger inputs anyway
+export const INPUT_MAX_SIZE_OPTIONS = [1024, 1536, 2048, 3072];
+
+export const INPUT_FORMATS: InputPreprocessSettings['format'][] = ['jpeg', 'png'];
+
+export const DEFAULT_INPUT_PREPROCESS_SETTINGS: InputPreprocessSettings = {
+  maxSize: 2048,
+  format: 'jpeg',
+  quality: 0.9,
+  autoTrim: true,
+};
+
+export const loadInputPreprocessSettings = (): InputPreprocessSettings => {
+  if (typeof localStorage === 'undefined') return DEFAULT_INPUT_PREPROCESS_SETTINGS;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      maxSize: INPUT_MAX_SIZE_OPTIONS.includes(parsed?.maxSize) ? parsed.maxSize : DEFAULT_INPUT_PREPROCESS_SETTINGS.maxSize,
+      format: INPUT_FORMATS.includes(parsed?.format) ? parsed.format : DEFAULT_INPUT_PREPROCESS_SETTINGS.format,
+      quality: typeof parsed?.quality === 'number' ? Math.min(1, Math.max(0.1, parsed.quality)) : DEFAULT_INPUT_PREPROCESS_SETTINGS.quality,
+      autoTrim: typeof parsed?.autoTrim === 'boolean' ? parsed.autoTrim : DEFAULT_INPUT_PREPROCESS_SETTINGS.autoTrim,
+    };
+  } catch (error) {
+    console.error('Stored preprocessing settings are corrupt, using defaults:', error);
+    return DEFAULT_INPUT_PREPROCESS_SETTINGS;
+  }
+};
+
+export const saveInputPreprocessSettings = (settings: InputPreprocessSettings) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+const isHeic = (file: File) => /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+/** Decodes an upload, applying its EXIF orientation. HEIC only decodes where the browser supports it (Safari). */
+export const decodeInputImage = async (file: File): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(isHeic(file)
+      ? 'Este navegador no puede leer imágenes HEIC. Conviértela a JPEG o PNG, o ábrela en Safari.'
+      : `No se pudo leer "${file.name}" como imagen.`);
+  }
+};
+
+export const rotatedSize = (image: ImageBitmap, rotation: ImageRotation) =>
+  rotation % 180 === 0
+    ? { width: image.width, height: image.height }
+    : { width: image.height, height: image.width };
+
+export const rotateBy = (rotation: ImageRotation, quarterTurns: number): ImageRotation =>
+  ((((rotation / 90 + quarterTurns) % 4) + 4) % 4 * 90) as ImageRotation;
+
+/**
+ * Draws `region` (in rotated coordinates) of the rotated image onto a new canvas, scaled by `scale`.
+ * Rotation is clockwise.
+ */
+const drawRegion = (image: ImageBitmap, rotation: ImageRotation, region: PixelRect, scale: number, background?: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.width * scale));
+  canvas.height = Math.max(1, Math.round(region.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('El navegador no soporta canvas 2D.');
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.translate(-region.x, -region.y);
+  if (rotation === 90) {
+    ctx.translate(image.height, 0);
+  } else if (rotation === 180) {
+    ctx.translate(image.width, image.height);
+  } else if (rotation === 270) {
+    ctx.translate(0, image.width);
+  }
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+};
+
+/** Whole rotated image, downscaled so its longest side fits `maxSize`; used for on-screen editing. */
+export const drawRotatedImage = (image: ImageBitmap, rotation: ImageRotation, maxSize: number): HTMLCanvasElement => {
+  const size = rotatedSize(image, rotation);
+  const scale = Math.min(1, maxSize / Math.max(size.width, size.height));
+  return drawRegion(image, rotation, { x: 0, y: 0, ...size }, scale);
+};
+
+const TRIM_ANALYSIS_SIZE = 480;
+// Summed RGB distance at which a pixel still counts as the border colour
+const TRIM_TOLERANCE = 30;
+// Share of a line's pixels that must match its median colour; leaves room for a few icons or text
+const TRIM_SOLID_SHARE = 0.96;
+// Solid bands wider than this are scene content (e.g. a plain sky), not window chrome
+const TRIM_MAX_SIDE_SHARE = 0.15;
+
+/**
+ * Finds solid bands along the edges (SketchUp title bars, toolbars, status bars, letterboxing)
+ * and returns the rectangle inside them, in pixels of the rotated image. Null when there is nothing to trim.
+ */
+export const detectUiBorders = (image: ImageBitmap, rotation: ImageRotation): PixelRect | null => {
+  const canvas = drawRotatedImage(image, rotation, TRIM_ANALYSIS_SIZE);
+  const { width, height } = canvas;
+  const data = canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+
+  const isSolidLine = (pixelIndexes: number[]) => {
+    const median = [0, 1, 2].map(channel => {
+      const values = pixelIndexes.map(index => data[index * 4 + channel]).sort((a, b) => a - b);
+      return values[values.length >> 1];
+    });
+    const matching = pixelIndexes.filter(index =>
+      Math.abs(data[index * 4] - median[0]) + Math.abs(data[index * 4 + 1] - median[1]) + Math.abs(data[index * 4 + 2] - median[2]) <= TRIM_TOLERANCE
+    ).length;
+    return matching >= pixelIndexes.length * TRIM_SOLID_SHARE;
+  };
+  const row = (y: number, x0: number, x1: number) => Array.from({ length: x1 - x0 }, (_, i) => y * width + x0 + i);
+  const column = (x: number, y0: number, y1: number) => Array.from({ length: y1 - y0 }, (_, i) => (y0 + i) * width + x);
+
+  // Counts solid lines from one edge inwards; a band that runs past the limit is treated as content
+  const measureBand = (line: (offset: number) => number[], limit: number) => {
+    let offset = 0;
+    while (offset <= limit && isSolidLine(line(offset))) offset++;
+    return offset > limit ? 0 : offset;
+  };
+
+  const top = measureBand(y => row(y, 0, width), Math.floor(height * TRIM_MAX_SIDE_SHARE));
+  const bottom = measureBand(y => row(height - 1 - y, 0, width), Math.floor(height * TRIM_MAX_SIDE_SHARE));
+  // Side toolbars only span the rows left between the top and bottom bars
+  const left = measureBand(x => column(x, top, height - bottom), Math.floor(width * TRIM_MAX_SIDE_SHARE));
+  const right = measureBand(x => column(width - 1 - x, top, height - bottom), Math.floor(width * TRIM_MAX_SIDE_SHARE));
+  if (top + bottom + left + right === 0) return null;
+
+  // Back to full resolution, rounding inwards so no border pixels survive
+  const size = rotatedSize(image, rotation);
+  const scale = size.width / width;
+  const x = Math.min(size.width - 1, Math.ceil(left * scale));
+  const y = Math.min(size.height - 1, Math.ceil(top * scale));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.floor((width - right) * scale) - x),
+    height: Math.max(1, Math.floor((height - bottom) * scale) - y),
+  };
+};
+
+export const defaultInputEdits = (image: ImageBitmap, settings: InputPreprocessSettings): InputImageEdits => ({
+  rotation: 0,
+  crop: settings.autoTrim ? detectUiBorders(image, 0) : null,
+});
+
+// "vista 3.HEIC" -> "vista 3.jpg"
+export const preprocessedFileName = (name: string, format: InputPreprocessSettings['format']) =>
+  `${name.replace(/\.[^./]+$/, '') || 'escena'}.${IMAGE_FILE_FORMATS[format].extension}`;
+
+/**
+ * Applies rotation, crop, downscaling and format conversion, returning exactly the file that is
+ * sent to the model.
+ */
+export const preprocessInputImage = async (
+  image: ImageBitmap,
+  edits: InputImageEdits,
+  settings: InputPreprocessSettings,
+  name: string
+): Promise<File> => {
+  const region = edits.crop ?? { x: 0, y: 0, ...rotatedSize(image, edits.rotation) };
+  const scale = Math.min(1, settings.maxSize / Math.max(region.width, region.height));
+  const { mimeType, lossy } = IMAGE_FILE_FORMATS[settings.format];
+  // JPEG has no alpha; transparent areas would otherwise turn black
+  const canvas = drawRegion(image, edits.rotation, region, scale, settings.format === 'jpeg' ? '#ffffff' : undefined);
+  const encoded = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, lossy ? settings.quality : undefined));
+  if (!encoded) throw new Error('No se pudo codificar la imagen.');
+  return new File([encoded], preprocessedFileName(name, settings.format), { type: encoded.type });
+};
+
+/** Preprocessing without the dialog (batch uploads): saved settings plus automatic border trimming. */
+export const autoPreprocessInputImage = async (file: File, settings: InputPreprocessSettings): Promise<File> => {
+  const image = await decodeInputImage(file);
+  try {
+    return await preprocessInputImage(image, defaultInputEdits(image, settings), settings, file.name);
+  } finally {
+    image.close();
+  }
+};
@@ -0,0 +1,49 @@
+import { LightingConfig, LightingType, OutputFormat } from '../types';
+import { COLOR_TEMPERATURE_LABELS, EXPOSURE_COMPENSATION_LABELS, CONTRAST_ENHANCEMENT_LABELS } from '../constants';
+import { ASPECT_RATIO_OPTIONS, IMAGE_SIZE_OPTIONS, DEFAULT_OUTPUT_FORMAT } from './outputFormat';
+
+const LIGHTING_TYPES = Object.values(LightingType) as string[];
+const COLOR_TEMPERATURES = Object.keys(COLOR_TEMPERATURE_LABELS);
+const EXPOSURE_COMPENSATIONS = Object.keys(EXPOSURE_COMPENSATION_LABELS);
+const CONTRAST_ENHANCEMENTS = Object.keys(CONTRAST_ENHANCEMENT_LABELS);
+
+const requireMember = (value: unknown, allowed: string[], field: string): string => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new Error(`Valor no válido para "${field}": ${JSON.stringify(value)}. Valores permitidos: ${allowed.join(', ')}.`);
+  }
+  return value;
+};
+
+export const validateOutputFormat = (raw: unknown): OutputFormat => {
+  // Older files have no output format and were always rendered at 16:9
+  if (raw === undefined || raw === null) return DEFAULT_OUTPUT_FORMAT;
+  if (typeof raw !== 'object') throw new Error('"outputFormat" debe ser un objeto.');
+  const format = raw as Record<string, unknown>;
+  return {
+    aspectRatio: requireMember(format.aspectRatio, Object.keys(ASPECT_RATIO_OPTIONS), 'outputFormat.aspectRatio') as OutputFormat['aspectRatio'],
+    imageSize: requireMember(format.imageSize, Object.keys(IMAGE_SIZE_OPTIONS), 'outputFormat.imageSize') as OutputFormat['imageSize'],
+  };
+};
+
+/**
+ * Validates an untrusted object (JSON file, project manifest) as a LightingConfig.
+ * Every enum-like field must be one of the known values; throws a Spanish error otherwise.
+ */
+export const validateLightingConfig = (raw: unknown): LightingConfig => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('La configuración de iluminación debe ser un objeto JSON.');
+  }
+  const config = raw as Record<string, unknown>;
+  const advancedLightingInstructions = config.advancedLightingInstructions ?? '';
+  if (typeof advancedLightingInstructions !== 'string') {
+    throw new Error('"advancedLightingInstructions" debe ser texto.');
+  }
+  return {
+    lightingType: requireMember(config.lightingType, LIGHTING_TYPES, 'lightingType') as LightingConfig['lightingType'],
+    advancedLightingInstructions,
+    colorTemperature: requireMember(config.colorTemperature, COLOR_TEMPERATURES, 'colorTemperature') as LightingConfig['colorTemperature'],
+    exposureCompensation: requireMember(config.exposureCompensation, EXPOSURE_COMPENSATIONS, 'exposureCompensation') as LightingConfig['exposureCompensation'],
+    contrastEnhancement: requireMember(config.contrastEnhancement, CONTRAST_ENHANCEMENTS, 'contrastEnhancement') as LightingConfig['contrastEnhancement'],
+    outputFormat: validateOutputFormat(config.outputFormat),
+  };
+};
@@ -0,0 +1,202 @@
+import {
+  LightingConfig,
+  LightingPreset,
+  LightingPresetPack,
+  LightingType,
+  LIGHTING_PRESET_PACK_FORMAT,
+  LIGHTING_PRESET_PACK_VERSION,
+} from '../types';
+import { validateLightingConfig } from './lightingConfig';
+
+const STORAGE_KEY = 'event-render-ai.lightingPresets';
+
+// Starter presets; they cannot be deleted, never carry a thumbnail and keep the current output format
+export const BUILT_IN_LIGHTING_PRESETS: LightingPreset[] = [
+  {
+    id: 'builtin-garden-sunset',
+    name: 'Boda jardín atardecer',
+    config: {
+      lightingType: LightingType.Sunset,
+      advancedLightingInstructions: 'Low golden sun behind the trees, warm festoon string lights overhead, soft rim light on the tables.',
+      colorTemperature: 'golden',
+      exposureCompensation: 'standard',
+      contrastEnhancement: 'soft',
+    },
+    thumbnail: null,
+    builtIn: true,
+    createdAt: 0,
+  },
+  {
+    id: 'builtin-blue-gala',
+    name: 'Gala nocturna azul',
+    config: {
+      lightingType: LightingType.Night,
+      advancedLightingInstructions: 'Deep blue uplighting on the walls, pin spots on every centerpiece, candlelight on the tables.',
+      colorTemperature: 'cool',
+      exposureCompensation: 'darker',
+      contrastEnhancement: 'high_contrast',
+    },
+    thumbnail: null,
+    builtIn: true,
+    createdAt: 0,
+  },
+  {
+    id: 'builtin-daylight-brunch',
+    name: 'Brunch luminoso de día',
+    config: {
+      lightingType: LightingType.Day,
+      advancedLightingInstructions: 'Bright diffuse daylight through large windows, airy and fresh, minimal shadows.',
+      colorTemperature: 'neutral',
+      exposureCompensation: 'brighter',
+      contrastEnhancement: 'natural',
+    },
+    thumbnail: null,
+    builtIn: true,
+    createdAt: 0,
+  },
+  {
+    id: 'builtin-candlelit-dinner',
+    name: 'Cena íntima a la luz de las velas',
+    config: {
+      lightingType: LightingType.Night,
+      advancedLightingInstructions: 'Dozens of candles as the main light source, warm pools of light on each table, dark surroundings.',
+      colorTemperature: 'warm',
+      exposureCompensation: 'very_dark',
+      contrastEnhancement: 'enhanced',
+    },
+    thumbnail: null,
+    builtIn: true,
+    createdAt: 0,
+  },
+];
+
+let nextPresetId = 0;
+
+const createPresetId = () => `preset-${Date.now().toString(36)}-${nextPresetId++}`;
+
+// Stored presets are validated like any other untrusted input; broken ones are skipped
+const readStorage = (): LightingPreset[] => {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((raw: unknown): LightingPreset[] => {
+      const preset = (raw ?? {}) as Record<string, unknown>;
+      try {
+        if (typeof preset.id !== 'string' || typeof preset.name !== 'string') throw new Error('Missing id or name.');
+        return [{
+          id: preset.id,
+          name: preset.name,
+          config: validateLightingConfig(preset.config),
+          thumbnail: typeof preset.thumbnail === 'string' ? preset.thumbnail : null,
+          builtIn: false,
+          createdAt: typeof preset.createdAt === 'number' ? preset.createdAt : 0,
+        }];
+      } catch (error) {
+        console.warn('Skipping invalid stored lighting preset:', error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.error('Stored lighting presets are corrupt, ignoring them:', error);
+    return [];
+  }
+};
+
+const writeStorage = (presets: LightingPreset[]) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/** Built-in presets first, then saved ones by name. */
+export const listLightingPresets = (): LightingPreset[] => [
+  ...BUILT_IN_LIGHTING_PRESETS,
+  ...readStorage().sort((a, b) => a.name.localeCompare(b.name, 'es')),
+];
+
+const isNameTaken = (name: string, presets: LightingPreset[]) =>
+  [...BUILT_IN_LIGHTING_PRESETS, ...presets].some(preset => preset.name.toLowerCase() === name.toLowerCase());
+
+// "Gala" -> "Gala (2)" when the name is already used
+const uniqueName = (name: string, presets: LightingPreset[]): string => {
+  if (!isNameTaken(name, presets)) return name;
+  let suffix = 2;
+  while (isNameTaken(`${name} (${suffix})`, presets)) suffix++;
+  return `${name} (${suffix})`;
+};
+
+/** Saves a preset; throws if the name is empty or already used. */
+export const saveLightingPreset = (name: string, config: LightingConfig, thumbnail: string | null): LightingPreset => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('El preset necesita un nombre.');
+  const stored = readStorage();
+  if (isNameTaken(trimmed, stored)) throw new Error(`Ya existe un preset llamado "${trimmed}".`);
+  const preset: LightingPreset = { id: createPresetId(), name: trimmed, config, thumbnail, builtIn: false, createdAt: Date.now() };
+  writeStorage([...stored, preset]);
+  return preset;
+};
+
+export const setLightingPresetThumbnail = (id: string, thumbnail: string | null) => {
+  writeStorage(readStorage().map(preset => (preset.id === id ? { ...preset, thumbnail } : preset)));
+};
+
+export const deleteLightingPreset = (id: string) => {
+  writeStorage(readStorage().filter(preset => preset.id !== id));
+};
+
+export const createPresetPack = (presets: LightingPreset[]): LightingPresetPack => ({
+  format: LIGHTING_PRESET_PACK_FORMAT,
+  version: LIGHTING_PRESET_PACK_VERSION,
+  presets: presets.map(({ name, config, thumbnail }) => ({ name, config, thumbnail })),
+});
+
+/**
+ * Validates a parsed preset pack. A bare LightingConfig (the old lighting_config.json)
+ * is accepted as a pack with one unnamed preset.
+ */
+export const parsePresetPack = (raw: unknown): LightingPresetPack => {
+  const data = raw as Record<string, unknown> | null;
+  if (data && typeof data === 'object' && data.format === LIGHTING_PRESET_PACK_FORMAT) {
+    if (typeof data.version !== 'number' || data.version > LIGHTING_PRESET_PACK_VERSION) {
+      throw new Error(`Versión de paquete de presets no soportada: ${String(data.version)}.`);
+    }
+    if (!Array.isArray(data.presets)) throw new Error('El paquete no contiene presets.');
+    return {
+      format: LIGHTING_PRESET_PACK_FORMAT,
+      version: LIGHTING_PRESET_PACK_VERSION,
+      presets: data.presets.map((raw: unknown, index: number) => {
+        const preset = (raw ?? {}) as Record<string, unknown>;
+        if (typeof preset.name !== 'string' || !preset.name.trim()) {
+          throw new Error(`El preset ${index + 1} no tiene nombre.`);
+        }
+        return {
+          name: preset.name.trim(),
+          config: validateLightingConfig(preset.config),
+          thumbnail: typeof preset.thumbnail === 'string' && preset.thumbnail.startsWith('data:image/') ? preset.thumbnail : null,
+        };
+      }),
+    };
+  }
+  return {
+    format: LIGHTING_PRESET_PACK_FORMAT,
+    version: LIGHTING_PRESET_PACK_VERSION,
+    presets: [{ name: 'Configuración importada', config: validateLightingConfig(raw), thumbnail: null }],
+  };
+};
+
+/** Adds every preset of the pack, renaming ones whose name is taken. Returns how many were added. */
+export const importPresetPack = (pack: LightingPresetPack): number => {
+  const stored = readStorage();
+  for (const preset of pack.presets) {
+    stored.push({
+      id: createPresetId(),
+      name: uniqueName(preset.name, stored),
+      config: preset.config,
+      thumbnail: preset.thumbnail,
+      builtIn: false,
+      createdAt: Date.now(),
+    });
+  }
+  writeStorage(stored);
+  return pack.presets.length;
+};
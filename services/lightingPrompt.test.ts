@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { LightingConfig, LightingType } from '../types';
+import {
+  COLOR_TEMPERATURE_FRAGMENTS,
+  CONTRAST_ENHANCEMENT_FRAGMENTS,
+  EXPOSURE_COMPENSATION_FRAGMENTS,
+  LIGHTING_TYPE_FRAGMENTS,
+  buildLightingPromptSection,
+} from './lightingPrompt';
+import { buildRefinementPrompt } from './geminiService';
+import { DEFAULT_PROMPT_TEMPLATES } from './promptTemplates';
+
+const BASE_CONFIG: LightingConfig = {
+  lightingType: LightingType.Day,
+  advancedLightingInstructions: '',
+  colorTemperature: 'neutral',
+  exposureCompensation: 'standard',
+  contrastEnhancement: 'natural',
+};
+
+// Every LightingConfig option with its fragment table; the cases below cover each value of each option
+const OPTIONS = [
+  { field: 'lightingType', fragments: LIGHTING_TYPE_FRAGMENTS },
+  { field: 'colorTemperature', fragments: COLOR_TEMPERATURE_FRAGMENTS },
+  { field: 'exposureCompensation', fragments: EXPOSURE_COMPENSATION_FRAGMENTS },
+  { field: 'contrastEnhancement', fragments: CONTRAST_ENHANCEMENT_FRAGMENTS },
+] as const;
+
+const CASES = OPTIONS.flatMap(({ field, fragments }) =>
+  Object.entries(fragments).map(([value, fragment]) => ({ field, value, fragment, fragments: fragments as Record<string, string> }))
+);
+
+const refinementPromptFor = (config: LightingConfig) =>
+  buildRefinementPrompt('A banquet hall with round tables.', config, { imageCount: 0, materials: [] }, DEFAULT_PROMPT_TEMPLATES);
+
+describe('lighting prompt fragments', () => {
+  it.each(OPTIONS)('$field has a distinct instruction for every value', ({ fragments }) => {
+    const values = Object.values(fragments);
+    expect(new Set(values).size).toBe(values.length);
+    values.forEach(fragment => expect(fragment.trim()).not.toBe(''));
+  });
+
+  it.each(CASES)('$field=$value puts its own instruction in the lighting section', ({ field, value, fragment, fragments }) => {
+    const section = buildLightingPromptSection({ ...BASE_CONFIG, [field]: value });
+    expect(section).toContain(fragment);
+    // No other value of the same option leaks in
+    Object.entries(fragments)
+      .filter(([other]) => other !== value)
+      .forEach(([, otherFragment]) => expect(section).not.toContain(otherFragment));
+  });
+
+  it.each(CASES)('$field=$value reaches the refinement prompt', ({ field, value, fragment }) => {
+    expect(refinementPromptFor({ ...BASE_CONFIG, [field]: value })).toContain(fragment);
+  });
+
+  it('adds advanced instructions only when they are set', () => {
+    expect(buildLightingPromptSection(BASE_CONFIG)).not.toContain('Additional lighting instructions');
+    expect(buildLightingPromptSection({ ...BASE_CONFIG, advancedLightingInstructions: '  Uplights in amber.  ' }))
+      .toContain('Additional lighting instructions: Uplights in amber.');
+  });
+});
@@ -0,0 +1,66 @@
+import { LightingConfig, LightingType } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES, fillTemplate } from './promptTemplates';
+
+// Explicit instruction for every LightingConfig option. Each value maps to a distinct sentence
+// so that changing any setting changes the prompt sent to the model.
+
+export const LIGHTING_TYPE_FRAGMENTS: Record<LightingType, string> = {
+  [LightingType.Day]: 'Lighting: Natural daylight. Brightness: Normal. Shadows: Soft and realistic.',
+  [LightingType.Sunset]: 'Lighting: Golden hour. Warm tones. Long shadows.',
+  [LightingType.Night]: 'Lighting: NIGHT MODE. Deep blue sky, dark environment. Light only from candles/lamps. Cinematic contrast.',
+};
+
+export const COLOR_TEMPERATURE_FRAGMENTS: Record<LightingConfig['colorTemperature'], string> = {
+  neutral: 'Color Temperature: Neutral white balance (~5000K). No color cast.',
+  warm: 'Color Temperature: Warm (~3500K). Amber and soft gold tones in highlights.',
+  golden: 'Color Temperature: Very warm golden (~2700K). Rich honey-gold glow across the whole scene.',
+  cool: 'Color Temperature: Cool (~6500K). Subtle blue and cyan tones in shadows and highlights.',
+};
+
+export const EXPOSURE_COMPENSATION_FRAGMENTS: Record<LightingConfig['exposureCompensation'], string> = {
+  standard: 'Exposure: Standard (0 EV). Balanced histogram, no clipped highlights or crushed shadows.',
+  brighter: 'Exposure: Slightly brighter (+0.7 EV). Lifted midtones and open shadows, highlights still preserved.',
+  very_bright: 'Exposure: Very bright (+1.5 EV). High-key, airy image with luminous whites and almost no dark areas.',
+  darker: 'Exposure: Slightly darker (-0.7 EV). Deeper midtones, moodier feel, highlights kept rich.',
+  very_dark: 'Exposure: Very dark (-1.5 EV). Low-key image, most of the scene in shadow, only light sources and lit surfaces visible.',
+};
+
+export const CONTRAST_ENHANCEMENT_FRAGMENTS: Record<LightingConfig['contrastEnhancement'], string> = {
+  natural: 'Contrast: Natural, true-to-life tonal range.',
+  enhanced: 'Contrast: Enhanced. Slightly punchier tones and more vivid colors, still realistic.',
+  high_contrast: 'Contrast: High and dramatic. Deep blacks, bright highlights, strong light/shadow separation.',
+  soft: 'Contrast: Soft and ethereal. Gentle transitions, diffused shadows, slight glow.',
+  low_contrast: 'Contrast: Low and flat. Muted, elegant editorial look with lifted blacks.',
+};
+
+export interface LightingPromptFragments {
+  lightingType: string;
+  colorTemperature: string;
+  exposure: string;
+  contrast: string;
+  advanced: string;
+}
+
+/** Maps every LightingConfig field to its prompt instruction. */
+export const buildLightingPromptFragments = (config: LightingConfig): LightingPromptFragments => ({
+  lightingType: LIGHTING_TYPE_FRAGMENTS[config.lightingType],
+  colorTemperature: COLOR_TEMPERATURE_FRAGMENTS[config.colorTemperature],
+  exposure: EXPOSURE_COMPENSATION_FRAGMENTS[config.exposureCompensation],
+  contrast: CONTRAST_ENHANCEMENT_FRAGMENTS[config.contrastEnhancement],
+  advanced: config.advancedLightingInstructions.trim(),
+});
+
+/** The lighting block of the refinement prompt, filled from the `lighting` template (one instruction per line). */
+export const buildLightingPromptSection = (
+  config: LightingConfig,
+  template: string = DEFAULT_PROMPT_TEMPLATES.lighting.body
+): string => {
+  const fragments = buildLightingPromptFragments(config);
+  return fillTemplate(template, {
+    ...fragments,
+    advanced: fragments.advanced ? `Additional lighting instructions: ${fragments.advanced}` : '',
+  })
+    .split('\n')
+    .filter(line => line.trim())
+    .join('\n  ');
+};
@@ -0,0 +1,63 @@
+// Shared IndexedDB database for everything the app keeps in the browser
+const DB_NAME = 'event-render-ai';
+// v1: renderHistory; v2: materialLibrary
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'renderHistory';
+export const MATERIAL_LIBRARY_STORE = 'materialLibrary';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Este navegador no soporta IndexedDB.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(MATERIAL_LIBRARY_STORE)) {
+          const store = db.createObjectStore(MATERIAL_LIBRARY_STORE, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('name', 'name');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('No se pudo abrir la base de datos local.'));
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Runs one request in its own transaction and resolves once the transaction has committed. */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const [result] = await Promise.all([requestToPromise(run(transaction.objectStore(storeName))), completed]);
+  return result;
+};
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
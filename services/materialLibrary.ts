@@ -0,0 +1,64 @@
+import { ImageInput, MaterialAssignment, MaterialLibraryItem, SceneAnalysis } from '../types';
+import { MATERIAL_LIBRARY_STORE, isQuotaError, withStore } from './localDatabase';
+import { createImageInput, extensionForMimeType } from './imageUtils';
+import { getDistinctLibraryItems } from './referencePrompt';
+
+type LibraryListener = () => void;
+const listeners = new Set<LibraryListener>();
+
+/** Subscribes to library changes (add/update/delete). Returns the unsubscribe function. */
+export const subscribeToMaterialLibrary = (listener: LibraryListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+/** Every library item, alphabetically by name. */
+export const listLibraryItems = async (): Promise<MaterialLibraryItem[]> => {
+  const items = await withStore(MATERIAL_LIBRARY_STORE, 'readonly', store => store.getAll() as IDBRequest<MaterialLibraryItem[]>);
+  return items.sort((a, b) => a.name.localeCompare(b.name, 'es'));
+};
+
+/** Adds a new item or overwrites an existing one (when `id` is set). Returns its id. */
+export const saveLibraryItem = async (item: MaterialLibraryItem): Promise<number> => {
+  try {
+    const id = await withStore(MATERIAL_LIBRARY_STORE, 'readwrite', store => store.put(item));
+    notifyListeners();
+    return id as number;
+  } catch (error) {
+    if (isQuotaError(error)) throw new Error('No hay espacio suficiente para guardar el material en la biblioteca local.');
+    throw error;
+  }
+};
+
+export const deleteLibraryItem = async (id: number): Promise<void> => {
+  await withStore(MATERIAL_LIBRARY_STORE, 'readwrite', store => store.delete(id));
+  notifyListeners();
+};
+
+/** Splits a comma separated tag field into lowercase, de-duplicated tags. */
+export const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+/** Case-insensitive match on name, description or tags. */
+export const matchesLibraryQuery = (item: MaterialLibraryItem, query: string): boolean => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return true;
+  return [item.name, item.description, ...item.tags].some(field => field.toLowerCase().includes(normalized));
+};
+
+/** Library swatches attached to objects of the analysis, in table order. */
+export const getMaterialAssignments = (analysis: SceneAnalysis | null, items: MaterialLibraryItem[]): MaterialAssignment[] => {
+  if (!analysis) return [];
+  const byId = new Map(items.map(item => [item.id, item]));
+  return analysis.objects.flatMap(object => {
+    const item = object.libraryItemId !== undefined ? byId.get(object.libraryItemId) : undefined;
+    return item ? [{ objectName: object.name, item }] : [];
+  });
+};
+
+/** Swatch images for the render call, in the order the refinement prompt lists them. */
+export const getMaterialReferenceFiles = (assignments: MaterialAssignment[]): ImageInput[] =>
+  getDistinctLibraryItems(assignments)
+    .map(item => createImageInput(item.image, `${item.name}.${extensionForMimeType(item.image.type)}`));
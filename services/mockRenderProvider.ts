@@ -0,0 +1,137 @@
+import { ImageInput, LightingConfig, LightingType, OutputFormat, PromptReferences, PromptTemplateSet, RenderProvider, SceneAnalysis } from '../types';
+import { buildLightingPromptSection } from './lightingPrompt';
+import { buildReferenceInstruction } from './referencePrompt';
+import { getOutputDimensions, resolveOutputFormat } from './outputFormat';
+import { blobToBase64 } from './imageUtils';
+import { abortableDelay } from './renderErrors';
+
+// Small artificial delay so loading states are visible when demoing without a key.
+const MOCK_LATENCY_MS = 400;
+
+const MOCK_SCENE_DESCRIPTION = `1. CAMARA: Plano general, altura de ojos, frontal.
+2. ZONAS VACÍAS (NO TOCAR):
+   * Primer plano derecho: Pasto vacío.
+   * Centro: Pasillo despejado.
+3. GEOMETRÍA EXISTENTE:
+   * Mesas redondas -> Mantel de lino blanco (mate).
+   * Sillas alrededor de las mesas -> Sillas Chiavari doradas (metal brillante).
+   * Arreglos florales sobre mesas -> Rosas blancas, florero de cristal transparente.
+   * Suelo: Pasto natural.
+   * Fondo: Pared de ladrillo expuesto.`;
+
+const MOCK_SCENE_ANALYSIS: SceneAnalysis = {
+  camera: { angle: 'Plano general, frontal', height: 'Altura de ojos' },
+  objects: [
+    { name: 'Mesas redondas', material: 'White linen tablecloth', finish: 'matte' },
+    { name: 'Sillas alrededor de las mesas', material: 'Gold metal', finish: 'metallic' },
+    { name: 'Arreglos florales sobre mesas', material: 'Fresh white roses', finish: 'satin' },
+    { name: 'Suelo', material: 'Natural grass', finish: 'textured' },
+    { name: 'Fondo', material: 'Exposed brick', finish: 'textured' },
+  ],
+  emptyRegions: ['Primer plano derecho: Pasto vacío.', 'Centro: Pasillo despejado.'],
+  guestCapacity: 80,
+};
+
+const BACKGROUND_BY_LIGHTING: Record<LightingType, string> = {
+  [LightingType.Day]: '#7dd3fc',
+  [LightingType.Sunset]: '#fb923c',
+  [LightingType.Night]: '#1e1b4b',
+};
+
+// Cheap deterministic hash so the same prompt always yields the same placeholder.
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const detectLightingFromPrompt = (prompt: string): LightingType => {
+  const match = prompt.match(/LIGHTING_TYPE=(\w+)/);
+  const value = match?.[1] as LightingType | undefined;
+  return value && Object.values(LightingType).includes(value) ? value : LightingType.Day;
+};
+
+/**
+ * Offline provider: canned scene description, deterministic prompt and an SVG placeholder image
+ * built from the uploaded scene.
+ * Lets the full flow run without an API key (demos, CI).
+ */
+export const mockRenderProvider: RenderProvider = {
+  name: 'mock',
+  requiresApiKey: false,
+  modelName: 'mock-placeholder',
+
+  detect: async (originalImages: ImageInput[], templates: PromptTemplateSet, signal?: AbortSignal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    if (originalImages.length === 0) return 'No images provided.';
+    return `${MOCK_SCENE_DESCRIPTION}\n(detección ${templates.detection.version})`;
+  },
+
+  analyze: async (originalImage: ImageInput, templates: PromptTemplateSet, signal?: AbortSignal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    return structuredClone(MOCK_SCENE_ANALYSIS);
+  },
+
+  refine: async (sceneDescription: string, lighting: LightingConfig, references: PromptReferences, templates: PromptTemplateSet, signal?: AbortSignal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    return [
+      `[MOCK PROMPT] LIGHTING_TYPE=${lighting.lightingType} TEMPLATE=refinement@${templates.refinement.version}`,
+      buildLightingPromptSection(lighting, templates.lighting.body),
+      `Output: ${resolveOutputFormat(lighting).aspectRatio} @ ${resolveOutputFormat(lighting).imageSize}.`,
+      buildReferenceInstruction(references),
+      sceneDescription,
+    ].filter(Boolean).join('\n');
+  },
+
+  render: async (originalImage: ImageInput, finalPrompt: string, referenceImages: ImageInput[], outputFormat: OutputFormat, signal?: AbortSignal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    const background = BACKGROUND_BY_LIGHTING[detectLightingFromPrompt(finalPrompt)];
+    const hue = hashString(finalPrompt) % 360;
+    const { width, height } = getOutputDimensions(outputFormat);
+    const fontSize = Math.round(Math.min(width, height) / 14);
+    // The SketchUp input shows through a lighting-coloured tint, so geometry checks behave like a faithful render
+    const sourceUrl = `data:${originalImage.type || 'image/png'};base64,${await blobToBase64(originalImage)}`;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <image href="${sourceUrl}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>
+  <rect width="${width}" height="${height}" fill="${background}" opacity="0.35"/>
+  <rect x="0" y="${height - fontSize * 2}" width="${width}" height="${fontSize * 2}" fill="hsl(${hue}, 45%, 35%)" opacity="0.8"/>
+  <text x="${width / 2}" y="${height - fontSize * 1.15}" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle" fill="#ffffff">MOCK RENDER ${outputFormat.aspectRatio}</text>
+  <text x="${width / 2}" y="${height - fontSize * 0.35}" font-family="sans-serif" font-size="${Math.round(fontSize / 2)}" text-anchor="middle" fill="#ffffff">${escapeXml(originalImage.name)} · ${referenceImages.length} ref.</text>
+</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  },
+
+  edit: async (renderUrl: string, mask: Blob, instruction: string, outputFormat: OutputFormat, templates: PromptTemplateSet, signal?: AbortSignal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    const hue = hashString(instruction) % 360;
+    const { width, height } = getOutputDimensions(outputFormat);
+    const fontSize = Math.round(Math.min(width, height) / 20);
+    // Tints only the painted area, so the mask round trip is visible without a model
+    const maskUrl = `data:${mask.type || 'image/png'};base64,${await blobToBase64(mask)}`;
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><mask id="edit-area"><image href="${maskUrl}" width="${width}" height="${height}" preserveAspectRatio="none"/></mask></defs>
+  <image href="${renderUrl}" width="${width}" height="${height}" preserveAspectRatio="none"/>
+  <rect width="${width}" height="${height}" fill="hsl(${hue}, 70%, 55%)" opacity="0.6" mask="url(#edit-area)"/>
+  <text x="${width / 2}" y="${fontSize * 1.5}" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle" fill="#ffffff">MOCK EDIT (${templates.edit.version}): ${escapeXml(instruction.slice(0, 60))}</text>
+</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  },
+
+  revise: async (renderUrl: string, instruction: string, outputFormat: OutputFormat, templates: PromptTemplateSet, signal?: AbortSignal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    const hue = hashString(instruction) % 360;
+    const { width, height } = getOutputDimensions(outputFormat);
+    const fontSize = Math.round(Math.min(width, height) / 20);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <image href="${renderUrl}" width="${width}" height="${height}" preserveAspectRatio="none"/>
+  <rect width="${width}" height="${height}" fill="hsl(${hue}, 60%, 50%)" opacity="0.2"/>
+  <text x="${width / 2}" y="${fontSize * 1.5}" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle" fill="#ffffff">MOCK REVISION (${templates.revise.version}): ${escapeXml(instruction.slice(0, 60))}</text>
+</svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  },
+};
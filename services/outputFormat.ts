@@ -0,0 +1,48 @@
+import { AspectRatio, ImageSize, LightingConfig, OutputFormat } from '../types';
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = { aspectRatio: '16:9', imageSize: '1K' };
+
+type Orientation = 'Landscape' | 'Portrait' | 'Square';
+
+export const ASPECT_RATIO_OPTIONS: Record<AspectRatio, { label: string; orientation: Orientation }> = {
+  '16:9': { label: '16:9 Horizontal (Presentación)', orientation: 'Landscape' },
+  '3:2': { label: '3:2 Horizontal (Impresión)', orientation: 'Landscape' },
+  '4:5': { label: '4:5 Vertical (Instagram)', orientation: 'Portrait' },
+  '1:1': { label: '1:1 Cuadrado', orientation: 'Square' },
+  '9:16': { label: '9:16 Vertical (Historias)', orientation: 'Portrait' },
+};
+
+// Long side in pixels for each target size, as documented by the image model
+export const IMAGE_SIZE_OPTIONS: Record<ImageSize, { label: string; longSide: number }> = {
+  '1K': { label: '1K (Estándar)', longSide: 1024 },
+  '2K': { label: '2K (Alta resolución)', longSide: 2048 },
+  '4K': { label: '4K (Impresión)', longSide: 4096 },
+};
+
+const ORIENTATION_LOCKS: Record<Orientation, string> = {
+  Landscape: 'LANDSCAPE. NO SQUARE',
+  Portrait: 'PORTRAIT (VERTICAL). NO SQUARE. NO LANDSCAPE',
+  Square: 'SQUARE. NO LANDSCAPE. NO PORTRAIT',
+};
+
+export const resolveOutputFormat = (lighting: LightingConfig): OutputFormat => lighting.outputFormat ?? DEFAULT_OUTPUT_FORMAT;
+
+/** Pixel size of the requested output, e.g. 16:9 at 1K -> 1024x576. */
+export const getOutputDimensions = (format: OutputFormat): { width: number; height: number } => {
+  const [w, h] = format.aspectRatio.split(':').map(Number);
+  const longSide = IMAGE_SIZE_OPTIONS[format.imageSize].longSide;
+  return w >= h
+    ? { width: longSide, height: Math.round(longSide * h / w) }
+    : { width: Math.round(longSide * w / h), height: longSide };
+};
+
+/** Template variables describing the output format (refinement and strict lock templates). */
+export const getOutputFormatPromptVariables = (format: OutputFormat): Record<string, string> => {
+  const { orientation } = ASPECT_RATIO_OPTIONS[format.aspectRatio];
+  return {
+    aspectRatio: format.aspectRatio,
+    orientation,
+    orientationLock: ORIENTATION_LOCKS[orientation],
+    imageSize: format.imageSize,
+  };
+};
@@ -0,0 +1,195 @@
+import { ColorGrading, LightingConfig, PostProcessSettings, PostProcessStage } from '../types';
+
+// Pure pixel operations; they run inside services/postProcessing.worker.ts, off the main thread
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray<ArrayBuffer>; // RGBA
+  width: number;
+  height: number;
+}
+
+export type PostProcessProgress = (stage: PostProcessStage, fraction: number) => void;
+
+// Upscaled output is produced in square tiles so progress can be reported while it runs
+const UPSCALE_TILE_SIZE = 256;
+// Relative gain of the red/blue channels at full white balance shift
+const WHITE_BALANCE_RANGE = 0.12;
+
+export const NEUTRAL_GRADING: ColorGrading = { exposure: 0, temperature: 0, contrast: 0 };
+
+export const DEFAULT_POST_PROCESS_SETTINGS: PostProcessSettings = {
+  upscaleFactor: 2,
+  sharpenAmount: 0.6,
+  grading: NEUTRAL_GRADING,
+};
+
+const EXPOSURE_STOPS: Record<LightingConfig['exposureCompensation'], number> = {
+  very_dark: -1,
+  darker: -0.5,
+  standard: 0,
+  brighter: 0.5,
+  very_bright: 1,
+};
+
+const TEMPERATURE_SHIFTS: Record<LightingConfig['colorTemperature'], number> = {
+  cool: -0.5,
+  neutral: 0,
+  warm: 0.4,
+  golden: 0.7,
+};
+
+const CONTRAST_CURVES: Record<LightingConfig['contrastEnhancement'], number> = {
+  low_contrast: -0.5,
+  soft: -0.3,
+  natural: 0,
+  enhanced: 0.3,
+  high_contrast: 0.6,
+};
+
+/** Grading that pushes the render further in the direction of its lighting settings. */
+export const gradingFromLighting = (lighting: LightingConfig): ColorGrading => ({
+  exposure: EXPOSURE_STOPS[lighting.exposureCompensation],
+  temperature: TEMPERATURE_SHIFTS[lighting.colorTemperature],
+  contrast: CONTRAST_CURVES[lighting.contrastEnhancement],
+});
+
+export const isNeutralGrading = (grading: ColorGrading): boolean =>
+  grading.exposure === 0 && grading.temperature === 0 && grading.contrast === 0;
+
+const srgbToLinear = (v: number) => (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4);
+const linearToSrgb = (v: number) => (v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055);
+
+// Exposure and white balance act on linear light; the contrast curve on display values
+const buildGradingLut = (grading: ColorGrading, channelGain: number): Uint8ClampedArray => {
+  const gain = 2 ** grading.exposure * channelGain;
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    const x = Math.min(1, linearToSrgb(srgbToLinear(i / 255) * gain));
+    const smooth = x * x * (3 - 2 * x);
+    lut[i] = Math.round((x + grading.contrast * (smooth - x)) * 255);
+  }
+  return lut;
+};
+
+/** Applies exposure, white balance and contrast in place through per-channel lookup tables. */
+export const applyColorGrading = (image: PixelBuffer, grading: ColorGrading): PixelBuffer => {
+  if (isNeutralGrading(grading)) return image;
+  const shift = grading.temperature * WHITE_BALANCE_RANGE;
+  const luts = [buildGradingLut(grading, 1 + shift), buildGradingLut(grading, 1), buildGradingLut(grading, 1 - shift)];
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = luts[0][data[i]];
+    data[i + 1] = luts[1][data[i + 1]];
+    data[i + 2] = luts[2][data[i + 2]];
+  }
+  return image;
+};
+
+// Catmull-Rom weights for the four taps around a sample
+const cubicWeights = (t: number): [number, number, number, number] => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return [
+    -0.5 * t3 + t2 - 0.5 * t,
+    1.5 * t3 - 2.5 * t2 + 1,
+    -1.5 * t3 + 2 * t2 + 0.5 * t,
+    0.5 * t3 - 0.5 * t2,
+  ];
+};
+
+/** Bicubic upscale to `width` x `height`, computed tile by tile. */
+export const upscaleBicubic = (image: PixelBuffer, width: number, height: number, onProgress?: (fraction: number) => void): PixelBuffer => {
+  const { data: src, width: srcWidth, height: srcHeight } = image;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const scaleX = srcWidth / width;
+  const scaleY = srcHeight / height;
+  const clampX = (x: number) => (x < 0 ? 0 : x >= srcWidth ? srcWidth - 1 : x);
+  const clampY = (y: number) => (y < 0 ? 0 : y >= srcHeight ? srcHeight - 1 : y);
+  const tilesX = Math.ceil(width / UPSCALE_TILE_SIZE);
+  const tilesY = Math.ceil(height / UPSCALE_TILE_SIZE);
+
+  for (let tileY = 0; tileY < tilesY; tileY++) {
+    for (let tileX = 0; tileX < tilesX; tileX++) {
+      const endY = Math.min(height, (tileY + 1) * UPSCALE_TILE_SIZE);
+      const endX = Math.min(width, (tileX + 1) * UPSCALE_TILE_SIZE);
+      for (let y = tileY * UPSCALE_TILE_SIZE; y < endY; y++) {
+        const sy = (y + 0.5) * scaleY - 0.5;
+        const y0 = Math.floor(sy);
+        const wy = cubicWeights(sy - y0);
+        const rows = [clampY(y0 - 1), clampY(y0), clampY(y0 + 1), clampY(y0 + 2)];
+        for (let x = tileX * UPSCALE_TILE_SIZE; x < endX; x++) {
+          const sx = (x + 0.5) * scaleX - 0.5;
+          const x0 = Math.floor(sx);
+          const wx = cubicWeights(sx - x0);
+          const cols = [clampX(x0 - 1), clampX(x0), clampX(x0 + 1), clampX(x0 + 2)];
+          const o = (y * width + x) * 4;
+          for (let c = 0; c < 4; c++) {
+            let sum = 0;
+            for (let j = 0; j < 4; j++) {
+              const rowOffset = rows[j] * srcWidth;
+              sum += wy[j] * (
+                wx[0] * src[(rowOffset + cols[0]) * 4 + c] +
+                wx[1] * src[(rowOffset + cols[1]) * 4 + c] +
+                wx[2] * src[(rowOffset + cols[2]) * 4 + c] +
+                wx[3] * src[(rowOffset + cols[3]) * 4 + c]
+              );
+            }
+            out[o + c] = sum;
+          }
+        }
+      }
+      onProgress?.((tileY * tilesX + tileX + 1) / (tilesX * tilesY));
+    }
+  }
+  return { data: out, width, height };
+};
+
+/** Unsharp mask against a 3x3 Gaussian blur; alpha is left untouched. */
+export const unsharpMask = (image: PixelBuffer, amount: number, onProgress?: (fraction: number) => void): PixelBuffer => {
+  if (amount <= 0) return image;
+  const { data: src, width, height } = image;
+  const out = new Uint8ClampedArray(src);
+  const progressStep = Math.max(1, Math.floor(height / 20));
+
+  for (let y = 0; y < height; y++) {
+    // Edge pixels reuse their own row/column in place of the missing neighbour
+    const up = (y > 0 ? y - 1 : y) * width;
+    const mid = y * width;
+    const down = (y < height - 1 ? y + 1 : y) * width;
+    for (let x = 0; x < width; x++) {
+      const left = x > 0 ? x - 1 : x;
+      const right = x < width - 1 ? x + 1 : x;
+      const o = (mid + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const blurred = (
+          src[(up + left) * 4 + c] + 2 * src[(up + x) * 4 + c] + src[(up + right) * 4 + c] +
+          2 * src[(mid + left) * 4 + c] + 4 * src[o + c] + 2 * src[(mid + right) * 4 + c] +
+          src[(down + left) * 4 + c] + 2 * src[(down + x) * 4 + c] + src[(down + right) * 4 + c]
+        ) / 16;
+        out[o + c] = src[o + c] + amount * (src[o + c] - blurred);
+      }
+    }
+    if ((y + 1) % progressStep === 0) onProgress?.((y + 1) / height);
+  }
+  return { data: out, width, height };
+};
+
+/**
+ * Grades at native size (cheapest), then upscales to `width` x `height` and sharpens the result.
+ * Progress is reported per stage as a 0-1 fraction.
+ */
+export const runPostProcessing = (
+  image: PixelBuffer,
+  settings: PostProcessSettings,
+  width: number,
+  height: number,
+  onProgress: PostProcessProgress
+): PixelBuffer => {
+  onProgress('grading', 0);
+  let result = applyColorGrading(image, settings.grading);
+  if (width !== image.width || height !== image.height) {
+    result = upscaleBicubic(result, width, height, fraction => onProgress('upscale', fraction));
+  }
+  onProgress('sharpen', 0);
+  return unsharpMask(result, settings.sharpenAmount, fraction => onProgress('sharpen', fraction));
+};
@@ -0,0 +1,26 @@
+import { runPostProcessing, PixelBuffer } from './postProcessing';
+import { PostProcessSettings, PostProcessStage } from '../types';
+
+export interface PostProcessRequest {
+  image: PixelBuffer;
+  settings: PostProcessSettings;
+  width: number; // Output size
+  height: number;
+}
+
+export type PostProcessMessage =
+  | { type: 'progress'; stage: PostProcessStage; fraction: number }
+  | { type: 'done'; image: PixelBuffer }
+  | { type: 'error'; message: string };
+
+const post = (message: PostProcessMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<PostProcessRequest>) => {
+  const { image, settings, width, height } = event.data;
+  try {
+    const result = runPostProcessing(image, settings, width, height, (stage, fraction) => post({ type: 'progress', stage, fraction }));
+    post({ type: 'done', image: result }, [result.data.buffer]);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
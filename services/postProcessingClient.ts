@@ -0,0 +1,70 @@
+import { loadImage } from './imageUtils';
+import { PostProcessProgress } from './postProcessing';
+import type { PostProcessMessage, PostProcessRequest } from './postProcessing.worker';
+import { PostProcessSettings } from '../types';
+
+// Longest side of the processed image; larger canvases fail to allocate in some browsers
+export const MAX_OUTPUT_LONG_SIDE = 8192;
+
+/** Output size for an upscale factor, capped at MAX_OUTPUT_LONG_SIDE. */
+export const getPostProcessSize = (width: number, height: number, upscaleFactor: number): { width: number; height: number } => {
+  const scale = Math.max(1, Math.min(upscaleFactor, MAX_OUTPUT_LONG_SIDE / Math.max(width, height)));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('El navegador no soporta canvas 2D.');
+  return { canvas, ctx };
+};
+
+/**
+ * Upscales, sharpens and grades a render in a Web Worker and returns the result as a PNG.
+ * Aborting `signal` terminates the worker and rejects with the abort reason.
+ */
+export const postProcessRender = async (
+  renderUrl: string,
+  settings: PostProcessSettings,
+  onProgress: PostProcessProgress,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const source = await loadImage(renderUrl);
+  const input = createCanvas(source.naturalWidth, source.naturalHeight);
+  input.ctx.drawImage(source, 0, 0);
+  const { data } = input.ctx.getImageData(0, 0, source.naturalWidth, source.naturalHeight);
+  const size = getPostProcessSize(source.naturalWidth, source.naturalHeight, settings.upscaleFactor);
+  signal?.throwIfAborted();
+
+  const worker = new Worker(new URL('./postProcessing.worker.ts', import.meta.url), { type: 'module' });
+  try {
+    const result = await new Promise<ImageData>((resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+      worker.onerror = event => reject(new Error(event.message || 'Error en el procesado.'));
+      worker.onmessage = (event: MessageEvent<PostProcessMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') onProgress(message.stage, message.fraction);
+        else if (message.type === 'done') resolve(new ImageData(message.image.data, message.image.width, message.image.height));
+        else reject(new Error(message.message));
+      };
+      const request: PostProcessRequest = {
+        image: { data, width: source.naturalWidth, height: source.naturalHeight },
+        settings,
+        ...size,
+      };
+      worker.postMessage(request, [data.buffer]);
+    });
+
+    onProgress('encode', 0);
+    const output = createCanvas(result.width, result.height);
+    output.ctx.putImageData(result, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => output.canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('No se pudo codificar la imagen procesada.');
+    signal?.throwIfAborted();
+    return blob;
+  } finally {
+    worker.terminate();
+  }
+};
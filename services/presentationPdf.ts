@@ -0,0 +1,219 @@
+import { jsPDF } from 'jspdf';
+import { createThumbnail } from './imageUtils';
+import { extractMaterialList } from './sceneAnalysis';
+import { resolveOutputFormat } from './outputFormat';
+import {
+  LIGHTING_TYPE_LABELS,
+  COLOR_TEMPERATURE_LABELS,
+  EXPOSURE_COMPENSATION_LABELS,
+  CONTRAST_ENHANCEMENT_LABELS,
+} from '../constants';
+import { LightingConfig, PresentationBranding, PresentationMetadata, PresentationSlide } from '../types';
+
+const STORAGE_KEY = 'event-render-ai.presentationBranding';
+
+const DEFAULT_BRANDING: PresentationBranding = { companyName: '', logoUrl: null };
+
+// A4 landscape, in millimetres
+const PAGE_WIDTH = 297;
+const PAGE_HEIGHT = 210;
+const MARGIN = 12;
+const HEADER_HEIGHT = 22;
+const FOOTER_HEIGHT = 10;
+const SIDEBAR_WIDTH = 82;
+
+// Long side (px) images are rasterized to; keeps the PDF small while staying sharp when printed
+const RENDER_MAX_PX = 2000;
+const SOURCE_MAX_PX = 1000;
+
+const BRAND_COLOR: [number, number, number] = [49, 46, 129]; // indigo-900
+const ACCENT_COLOR: [number, number, number] = [147, 51, 234]; // purple-600
+const TEXT_COLOR: [number, number, number] = [30, 27, 75];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+
+// localStorage is missing outside the browser (e.g. Node); branding then starts empty
+export const loadPresentationBranding = (): PresentationBranding => {
+  if (typeof localStorage === 'undefined') return DEFAULT_BRANDING;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return {
+      companyName: typeof parsed?.companyName === 'string' ? parsed.companyName : '',
+      logoUrl: typeof parsed?.logoUrl === 'string' ? parsed.logoUrl : null,
+    };
+  } catch (error) {
+    console.error('Stored presentation branding is corrupt, using defaults:', error);
+    return DEFAULT_BRANDING;
+  }
+};
+
+export const savePresentationBranding = (branding: PresentationBranding) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(branding));
+};
+
+/** Formats the YYYY-MM-DD value of a date input as a long Spanish date; other text is returned as is. */
+export const formatEventDate = (eventDate: string): string => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(eventDate)) return eventDate;
+  return new Date(`${eventDate}T00:00:00`).toLocaleDateString('es-ES', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const describeLighting = (lighting: LightingConfig): string[] => {
+  const outputFormat = resolveOutputFormat(lighting);
+  const lines = [
+    `Ambiente: ${LIGHTING_TYPE_LABELS[lighting.lightingType]}`,
+    `Temperatura de color: ${COLOR_TEMPERATURE_LABELS[lighting.colorTemperature]}`,
+    `Exposición: ${EXPOSURE_COMPENSATION_LABELS[lighting.exposureCompensation]}`,
+    `Contraste: ${CONTRAST_ENHANCEMENT_LABELS[lighting.contrastEnhancement]}`,
+    `Formato: ${outputFormat.aspectRatio} · ${outputFormat.imageSize}`,
+  ];
+  if (lighting.advancedLightingInstructions.trim()) {
+    lines.push(`Notas: ${lighting.advancedLightingInstructions.trim()}`);
+  }
+  return lines;
+};
+
+// Scales the image into the box, keeping its aspect ratio; returns the height actually used
+const drawImageFit = (doc: jsPDF, dataUrl: string, x: number, y: number, maxWidth: number, maxHeight: number): number => {
+  const { width, height } = doc.getImageProperties(dataUrl);
+  const scale = Math.min(maxWidth / width, maxHeight / height);
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  doc.addImage(dataUrl, x + (maxWidth - drawWidth) / 2, y, drawWidth, drawHeight);
+  return drawHeight;
+};
+
+// Writes a bold heading and wrapped lines, stopping at `maxY`; returns the next free y
+const drawTextBlock = (doc: jsPDF, heading: string, lines: string[], x: number, y: number, width: number, maxY: number): number => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(...ACCENT_COLOR);
+  doc.text(heading, x, y);
+  y += 6;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT_COLOR);
+  for (const line of lines) {
+    const wrapped: string[] = doc.splitTextToSize(line, width);
+    if (y + wrapped.length * 4.2 > maxY) {
+      doc.text('…', x, y);
+      return y + 4.2;
+    }
+    doc.text(wrapped, x, y);
+    y += wrapped.length * 4.2 + 1;
+  }
+  return y + 4;
+};
+
+const drawHeader = (doc: jsPDF, title: string, branding: PresentationBranding) => {
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, PAGE_WIDTH, HEADER_HEIGHT, 'F');
+  let textX = MARGIN;
+  if (branding.logoUrl) {
+    const { width, height } = doc.getImageProperties(branding.logoUrl);
+    const logoHeight = HEADER_HEIGHT - 8;
+    const logoWidth = Math.min(50, (width / height) * logoHeight);
+    doc.addImage(branding.logoUrl, MARGIN, 4, logoWidth, logoHeight);
+    textX += logoWidth + 6;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(15);
+  doc.setTextColor(255, 255, 255);
+  doc.text(title, textX, HEADER_HEIGHT / 2 + 2);
+  if (branding.companyName) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(branding.companyName, PAGE_WIDTH - MARGIN, HEADER_HEIGHT / 2 + 2, { align: 'right' });
+  }
+};
+
+const drawFooter = (doc: jsPDF, metadata: PresentationMetadata, pageNumber: number, pageCount: number) => {
+  const y = PAGE_HEIGHT - FOOTER_HEIGHT / 2;
+  doc.setDrawColor(...ACCENT_COLOR);
+  doc.line(MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - FOOTER_HEIGHT);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED_COLOR);
+  const details = [metadata.clientName, metadata.venue, formatEventDate(metadata.eventDate)].filter(Boolean).join(' · ');
+  doc.text(details, MARGIN, y);
+  doc.text(`${pageNumber} / ${pageCount}`, PAGE_WIDTH - MARGIN, y, { align: 'right' });
+};
+
+const drawCover = (doc: jsPDF, metadata: PresentationMetadata, branding: PresentationBranding, slideCount: number) => {
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, 'F');
+  doc.setFillColor(...ACCENT_COLOR);
+  doc.rect(0, PAGE_HEIGHT - 18, PAGE_WIDTH, 18, 'F');
+
+  if (branding.logoUrl) {
+    drawImageFit(doc, branding.logoUrl, PAGE_WIDTH / 2 - 40, 28, 80, 40);
+  }
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(30);
+  doc.text('Propuesta de Ambientación', PAGE_WIDTH / 2, 92, { align: 'center' });
+  doc.setFontSize(18);
+  doc.text(metadata.clientName || 'Cliente', PAGE_WIDTH / 2, 108, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(13);
+  const details = [metadata.venue, formatEventDate(metadata.eventDate)].filter(Boolean);
+  details.forEach((line, index) => doc.text(line, PAGE_WIDTH / 2, 124 + index * 8, { align: 'center' }));
+  doc.setFontSize(10);
+  doc.text(`${slideCount} ${slideCount === 1 ? 'propuesta visual' : 'propuestas visuales'}`, PAGE_WIDTH / 2, 150, { align: 'center' });
+
+  if (branding.companyName) {
+    doc.setFontSize(11);
+    doc.text(branding.companyName, PAGE_WIDTH / 2, PAGE_HEIGHT - 7, { align: 'center' });
+  }
+};
+
+/**
+ * Builds the client proposal deck: a cover with the event details, then one page per slide with the
+ * render, its SketchUp source, the lighting summary and the materials from the scene description.
+ * Everything is drawn in the browser; images are rasterized to JPEG first (SVG and WebP included).
+ */
+export const buildPresentationPdf = async (
+  metadata: PresentationMetadata,
+  branding: PresentationBranding,
+  slides: PresentationSlide[]
+): Promise<Blob> => {
+  if (slides.length === 0) throw new Error('Selecciona al menos un render para la presentación.');
+
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: `Propuesta - ${metadata.clientName}`, author: branding.companyName, creator: 'Event Render AI' });
+  drawCover(doc, metadata, branding, slides.length);
+
+  const contentTop = HEADER_HEIGHT + MARGIN;
+  const contentBottom = PAGE_HEIGHT - FOOTER_HEIGHT - 4;
+  const renderWidth = PAGE_WIDTH - 3 * MARGIN - SIDEBAR_WIDTH;
+  const sidebarX = PAGE_WIDTH - MARGIN - SIDEBAR_WIDTH;
+
+  for (const slide of slides) {
+    const [renderImage, sourceImage] = await Promise.all([
+      createThumbnail(slide.renderUrl, RENDER_MAX_PX),
+      createThumbnail(slide.sketchupImage, SOURCE_MAX_PX),
+    ]);
+    doc.addPage();
+    drawHeader(doc, slide.title, branding);
+    drawImageFit(doc, renderImage, MARGIN, contentTop, renderWidth, contentBottom - contentTop);
+
+    let y = contentTop;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(...ACCENT_COLOR);
+    doc.text('Modelo SketchUp', sidebarX, y);
+    y += 3;
+    y += drawImageFit(doc, sourceImage, sidebarX, y, SIDEBAR_WIDTH, 50) + 8;
+    y = drawTextBlock(doc, 'Iluminación', describeLighting(slide.lighting), sidebarX, y, SIDEBAR_WIDTH, contentBottom);
+    const materials = extractMaterialList(slide.sceneDescription);
+    drawTextBlock(doc, 'Materiales', materials.length > 0 ? materials : ['Según el modelo original.'], sidebarX, y, SIDEBAR_WIDTH, contentBottom);
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    drawFooter(doc, metadata, page, pageCount);
+  }
+
+  return doc.output('blob');
+};
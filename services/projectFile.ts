@@ -0,0 +1,275 @@
+import JSZip from 'jszip';
+import { LightingConfig, PipelineTemplateId, PROJECT_FORMAT, PROJECT_VERSION, ProjectManifest, ProjectSession, PromptTemplateVersions, SceneAnalysis } from '../types';
+import { validateLightingConfig } from './lightingConfig';
+import { PIPELINE_TEMPLATE_IDS, PROMPT_TEMPLATE_IDS } from './promptTemplates';
+import { parseSceneAnalysis } from './sceneAnalysis';
+import { dataUrlToBlob, blobToDataUrl, extensionForMimeType, mimeTypeForExtension } from './imageUtils';
+
+const MANIFEST_PATH = 'project.json';
+const ASSETS_DIR = 'assets';
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string') throw new Error(`Proyecto no válido: "${field}" debe ser texto.`);
+  return value;
+};
+
+const requireArray = (value: unknown, field: string): unknown[] => {
+  if (!Array.isArray(value)) throw new Error(`Proyecto no válido: "${field}" debe ser una lista.`);
+  return value;
+};
+
+const requireObject = (value: unknown, field: string): Record<string, unknown> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Proyecto no válido: "${field}" debe ser un objeto.`);
+  }
+  return value as Record<string, unknown>;
+};
+
+const validateAsset = (raw: unknown, field: string) => {
+  const asset = requireObject(raw, field);
+  return { name: requireString(asset.name, `${field}.name`), path: requireString(asset.path, `${field}.path`) };
+};
+
+const validateTemplateVersions = (raw: unknown, field: string): PromptTemplateVersions => {
+  const versions = requireObject(raw, field);
+  return PROMPT_TEMPLATE_IDS.reduce((result, id) => {
+    // Follow-up templates are only recorded on the edits they produced
+    if (PIPELINE_TEMPLATE_IDS.includes(id as PipelineTemplateId) || versions[id] !== undefined) {
+      result[id] = requireString(versions[id], `${field}.${id}`);
+    }
+    return result;
+  }, {} as PromptTemplateVersions);
+};
+
+const requireNullableString = (value: unknown, field: string): string | null =>
+  value === null || value === undefined ? null : requireString(value, field);
+
+const validateSceneAnalysis = (raw: unknown): SceneAnalysis | null => {
+  if (raw === null || raw === undefined) return null;
+  try {
+    return parseSceneAnalysis(raw);
+  } catch {
+    throw new Error('Proyecto no válido: "sceneAnalysis" no es un análisis de escena.');
+  }
+};
+
+const validateRenderLighting = (raw: unknown, field: string): LightingConfig => {
+  try {
+    return validateLightingConfig(raw);
+  } catch (error: any) {
+    throw new Error(`Proyecto no válido: "${field}": ${error.message}`);
+  }
+};
+
+// Version 1 saved only the active render, without its place in the version chain
+const validateRendersV1 = (raw: unknown): Record<string, unknown>[] =>
+  requireArray(raw ?? [], 'renders').map((render, index) => ({
+    ...requireObject(render, `renders[${index}]`),
+    id: `render-${index + 1}`,
+    parentId: null,
+    instruction: null,
+  }));
+
+// Checks a manifest (already brought to the current version) field by field
+const validateManifest = (manifest: Record<string, unknown>): ProjectManifest => {
+  let lighting: LightingConfig;
+  try {
+    lighting = validateLightingConfig(manifest.lighting);
+  } catch (error: any) {
+    throw new Error(`Proyecto no válido: ${error.message}`);
+  }
+
+  const seenIds = new Set<string>();
+  const renders = requireArray(manifest.renders ?? [], 'renders').map((raw, index) => {
+    const render = requireObject(raw, `renders[${index}]`);
+    const id = requireString(render.id, `renders[${index}].id`);
+    const parentId = requireNullableString(render.parentId, `renders[${index}].parentId`);
+    // Parents are always saved before their children
+    if (seenIds.has(id) || (parentId !== null && !seenIds.has(parentId))) {
+      throw new Error(`Proyecto no válido: la cadena de versiones de "renders[${index}]" es incoherente.`);
+    }
+    seenIds.add(id);
+    return {
+      id,
+      parentId,
+      instruction: requireNullableString(render.instruction, `renders[${index}].instruction`),
+      path: requireString(render.path, `renders[${index}].path`),
+      prompt: requireString(render.prompt ?? '', `renders[${index}].prompt`),
+      modelName: requireString(render.modelName ?? '', `renders[${index}].modelName`),
+      createdAt: requireString(render.createdAt ?? '', `renders[${index}].createdAt`),
+      templateVersions: render.templateVersions === undefined
+        ? undefined
+        : validateTemplateVersions(render.templateVersions, `renders[${index}].templateVersions`),
+      lighting: render.lighting === undefined ? undefined : validateRenderLighting(render.lighting, `renders[${index}].lighting`),
+    };
+  });
+
+  const activeRenderId = requireNullableString(manifest.activeRenderId, 'activeRenderId');
+  if (activeRenderId !== null && !seenIds.has(activeRenderId)) {
+    throw new Error('Proyecto no válido: "activeRenderId" no corresponde a ningún render.');
+  }
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: requireString(manifest.createdAt, 'createdAt'),
+    scene: manifest.scene === null || manifest.scene === undefined ? null : validateAsset(manifest.scene, 'scene'),
+    sceneDescription: requireString(manifest.sceneDescription ?? '', 'sceneDescription'),
+    sceneAnalysis: validateSceneAnalysis(manifest.sceneAnalysis),
+    lighting,
+    referenceImages: requireArray(manifest.referenceImages ?? [], 'referenceImages')
+      .map((asset, index) => validateAsset(asset, `referenceImages[${index}]`)),
+    renders,
+    activeRenderId,
+  };
+};
+
+/**
+ * Brings any supported input up to the current manifest version:
+ * - a version 2 manifest is validated as-is;
+ * - a version 1 manifest gets ids for its renders and no scene analysis;
+ * - a legacy `lighting_config.json` (bare LightingConfig) becomes a project with lighting only.
+ */
+export const migrateProjectManifest = (raw: unknown): ProjectManifest => {
+  const data = requireObject(raw, 'project.json');
+
+  if (data.format === PROJECT_FORMAT) {
+    if (data.version === PROJECT_VERSION) return validateManifest(data);
+    if (data.version === 1) {
+      const renders = validateRendersV1(data.renders);
+      return validateManifest({ ...data, sceneAnalysis: null, renders, activeRenderId: renders[0]?.id ?? null });
+    }
+    throw new Error(`Versión de proyecto no soportada: ${JSON.stringify(data.version)}. Actualiza la aplicación.`);
+  }
+
+  if ('lightingType' in data) {
+    return validateManifest({
+      createdAt: new Date().toISOString(),
+      scene: null,
+      sceneDescription: '',
+      sceneAnalysis: null,
+      lighting: data,
+      referenceImages: [],
+      renders: [],
+      activeRenderId: null,
+    });
+  }
+
+  throw new Error('El archivo no es un proyecto de Event Render AI ni una configuración de iluminación.');
+};
+
+const assetPath = (baseName: string, mimeType: string) => `${ASSETS_DIR}/${baseName}.${extensionForMimeType(mimeType)}`;
+
+/** Packs the session into a zip: project.json plus every image under assets/. */
+export const exportProjectArchive = async (session: ProjectSession): Promise<Blob> => {
+  const zip = new JSZip();
+
+  const scene = session.sceneImage
+    ? { name: session.sceneImage.name, path: assetPath('scene', session.sceneImage.type) }
+    : null;
+  if (session.sceneImage && scene) zip.file(scene.path, session.sceneImage);
+
+  const referenceImages = session.referenceImages.map((file, index) => {
+    const path = assetPath(`reference-${index + 1}`, file.type);
+    zip.file(path, file);
+    return { name: file.name, path };
+  });
+
+  const renders = session.renders.map(({ url, ...render }, index) => {
+    const blob = dataUrlToBlob(url);
+    const path = assetPath(`render-${index + 1}`, blob.type);
+    zip.file(path, blob);
+    return { ...render, path };
+  });
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: new Date().toISOString(),
+    scene,
+    sceneDescription: session.sceneDescription,
+    sceneAnalysis: session.sceneAnalysis,
+    lighting: session.lighting,
+    referenceImages,
+    renders,
+    activeRenderId: session.activeRenderId,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const readAsset = async (zip: JSZip, path: string): Promise<Blob> => {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`Proyecto incompleto: falta el archivo "${path}".`);
+  const data = await entry.async('blob');
+  return new Blob([data], { type: mimeTypeForExtension(path.split('.').pop() ?? '') });
+};
+
+/**
+ * Opens a project archive (.zip) or a bare JSON file (manifest without assets, or a legacy
+ * lighting_config.json) and returns the session to load into the editor.
+ */
+export const importProjectFile = async (file: File): Promise<ProjectSession> => {
+  const isJson = file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+  if (isJson) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      throw new Error('Archivo JSON corrupto.');
+    }
+    const manifest = migrateProjectManifest(raw);
+    if (manifest.scene || manifest.referenceImages.length > 0 || manifest.renders.length > 0) {
+      throw new Error('Este project.json hace referencia a imágenes; importa el archivo .zip completo.');
+    }
+    return {
+      sceneImage: null,
+      sceneDescription: manifest.sceneDescription,
+      sceneAnalysis: manifest.sceneAnalysis,
+      lighting: manifest.lighting,
+      referenceImages: [],
+      renders: [],
+      activeRenderId: null,
+    };
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('El archivo no es un proyecto .zip válido.');
+  }
+  const manifestEntry = zip.file(MANIFEST_PATH);
+  if (!manifestEntry) throw new Error(`Proyecto no válido: falta ${MANIFEST_PATH}.`);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await manifestEntry.async('string'));
+  } catch {
+    throw new Error(`Proyecto no válido: ${MANIFEST_PATH} está corrupto.`);
+  }
+  const manifest = migrateProjectManifest(raw);
+
+  const readFile = async (asset: { name: string; path: string }) => {
+    const blob = await readAsset(zip, asset.path);
+    return new File([blob], asset.name, { type: blob.type });
+  };
+  const sceneImage = manifest.scene ? await readFile(manifest.scene) : null;
+  const referenceImages = await Promise.all(manifest.referenceImages.map(readFile));
+  const renders = await Promise.all(manifest.renders.map(async ({ path, ...render }) => ({
+    ...render,
+    url: await blobToDataUrl(await readAsset(zip, path)),
+  })));
+
+  return {
+    sceneImage,
+    sceneDescription: manifest.sceneDescription,
+    sceneAnalysis: manifest.sceneAnalysis,
+    lighting: manifest.lighting,
+    referenceImages,
+    renders,
+    activeRenderId: manifest.activeRenderId,
+  };
+};
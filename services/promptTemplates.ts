@@ -0,0 +1,201 @@
+import { PipelineTemplateId, PromptTemplate, PromptTemplateId, PromptTemplateSet, PromptTemplateVersions } from '../types';
+import { PROMPT_TEMPLATE_LABELS } from '../constants';
+
+const STORAGE_KEY = 'event-render-ai.promptTemplates';
+
+export const PIPELINE_TEMPLATE_IDS: PipelineTemplateId[] = ['detection', 'refinement', 'lighting', 'strictLock'];
+
+export const PROMPT_TEMPLATE_IDS: PromptTemplateId[] = [...PIPELINE_TEMPLATE_IDS, 'edit', 'revise'];
+
+// Placeholders each template receives; shown in the prompt lab as a cheat sheet
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplateId, string[]> = {
+  detection: [],
+  refinement: ['lightingSection', 'sceneDescription', 'referenceInstruction', 'aspectRatio', 'orientation', 'imageSize'],
+  lighting: ['lightingType', 'colorTemperature', 'exposure', 'contrast', 'advanced'],
+  strictLock: ['aspectRatio', 'orientation', 'orientationLock', 'imageSize'],
+  edit: ['instruction', 'aspectRatio'],
+  revise: ['instruction', 'aspectRatio'],
+};
+
+const BUILT_IN_VERSION = 'v1';
+
+// Pedir detalles de material (mate/brillante) para ayudar al realismo
+const DETECTION_V1 = `
+  TASK: Analyze the geometry and materials of this SketchUp scene for a HIGH-END RENDER.
+  OUTPUT FORMAT: Technical List.
+
+  1. Identify the CAMERA ANGLE (e.g., Wide shot, Eye level).
+  2. List the MATERIALS mapped to specific objects.
+     - Specify texture qualities if visible (e.g. "Shiny metal", "Rough wood", "Velvet fabric").
+     - Example: "Round tables -> White linen tablecloth (matte)."
+  3. Identify EMPTY SPACES (e.g., "Right foreground is empty grass").
+
+  Note: Be literal. Do not invent objects. Focus on material properties.
+  `;
+
+// PROMPT OPTIMIZADO PARA REALISMO DE TEXTURAS
+const REFINEMENT_V1 = `
+  ### SYSTEM INSTRUCTION: HIGH-FIDELITY TEXTURE ENGINE ###
+
+  You are a Technical Rendering Engine. Your goal is to apply **Ultra-Photorealistic 8K Textures** to a strict geometry wireframe.
+
+  ### CRITICAL OUTPUT PARAMETERS ###
+  1. **ASPECT RATIO:** {{aspectRatio}} ({{orientation}}).
+  2. **GEOMETRY:** LOCKED. Match input exactly. No new objects.
+  3. **TEXTURE QUALITY (PRIORITY):** Apply PBR (Physically Based Rendering) materials.
+     - **Fabrics:** Show micro-details (weave, seams, natural folds).
+     - **Metals:** Realistic reflection, anisotropy, and gloss.
+     - **Glass:** Physically accurate refraction and caustics.
+     - **Vegetation:** Subsurface scattering on leaves/petals.
+     - **Overall:** Eliminate "cartoonish" or "plastic" looks. Look like a high-end architectural photograph.
+
+  ### SCENE DATA ###
+  **Lighting & Exposure (apply exactly):**
+  {{lightingSection}}
+  **Atmosphere:** Style: Award-Winning Event Photography.
+  **Materials to Render:**
+  {{sceneDescription}}
+
+  {{referenceInstruction}}
+
+  Generate a precise image generation prompt that enforces a {{aspectRatio}} aspect ratio, strict geometry, AND maximizes texture realism (8k, PBR).
+  `;
+
+// One instruction per line; empty lines are dropped after filling
+const LIGHTING_V1 = `{{lightingType}}
+{{colorTemperature}}
+{{exposure}}
+{{contrast}}
+{{advanced}}`;
+
+// Prompt final reforzado con calidad 8K y realismo
+const STRICT_LOCK_V1 = ' --aspect-ratio {{aspectRatio}} [IMPORTANT: OUTPUT MUST BE {{aspectRatio}} {{orientationLock}}. NO CROPPING. KEEP EMPTY AREAS EMPTY. RENDER WITH 8K PHOTOREALISTIC TEXTURES AND PBR MATERIALS.]';
+
+// Region edit: the render comes first and its mask second
+const EDIT_V1 = `
+  TASK: LOCALIZED EDIT of the first image (a finished photorealistic event render).
+  The second image is a MASK of the same size: WHITE = area to edit, BLACK = area to keep.
+
+  EDIT INSTRUCTION: {{instruction}}
+
+  RULES:
+  1. Change ONLY the white masked area. Everything under the black area must stay identical (geometry, camera, colors, textures).
+  2. Match the existing lighting, perspective, scale and 8K PBR texture quality so the edit blends seamlessly.
+  3. Return the FULL image at {{aspectRatio}}. NO CROPPING.
+  `;
+
+// Follow-up on a whole render ("same thing, but ...")
+const REVISE_V1 = `
+  TASK: REVISE this finished photorealistic event render.
+
+  FOLLOW-UP INSTRUCTION: {{instruction}}
+
+  RULES:
+  1. Keep the camera, geometry, layout and every object exactly where it is. No new objects unless the instruction asks for them.
+  2. Apply ONLY the requested change (lighting, atmosphere, materials, colors...) consistently across the image.
+  3. Keep the 8K PBR texture quality of the input.
+  4. Return the FULL image at {{aspectRatio}}. NO CROPPING.
+  `;
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplateSet = {
+  detection: { id: 'detection', version: BUILT_IN_VERSION, name: 'Detección técnica', body: DETECTION_V1, builtIn: true },
+  refinement: { id: 'refinement', version: BUILT_IN_VERSION, name: 'High-Fidelity Texture Engine', body: REFINEMENT_V1, builtIn: true },
+  lighting: { id: 'lighting', version: BUILT_IN_VERSION, name: 'Bloque de iluminación', body: LIGHTING_V1, builtIn: true },
+  strictLock: { id: 'strictLock', version: BUILT_IN_VERSION, name: 'Strict Lock', body: STRICT_LOCK_V1, builtIn: true },
+  edit: { id: 'edit', version: BUILT_IN_VERSION, name: 'Edición localizada', body: EDIT_V1, builtIn: true },
+  revise: { id: 'revise', version: BUILT_IN_VERSION, name: 'Refinado completo', body: REVISE_V1, builtIn: true },
+};
+
+/** Replaces every {{name}} with its value; unknown placeholders become empty strings. */
+export const fillTemplate = (body: string, variables: Record<string, string>): string =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+
+/** Placeholder names used in a template body, in order of first appearance. */
+export const listTemplatePlaceholders = (body: string): string[] =>
+  Array.from(new Set(Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1])));
+
+// Versions behind a first render; edits add their own template on top
+export const getTemplateVersions = (templates: PromptTemplateSet): PromptTemplateVersions => ({
+  detection: templates.detection.version,
+  refinement: templates.refinement.version,
+  lighting: templates.lighting.version,
+  strictLock: templates.strictLock.version,
+});
+
+/** Human readable summary, e.g. "Detección v1 · Refinamiento v2 · ...". */
+export const describeTemplateVersions = (versions: PromptTemplateVersions): string =>
+  PROMPT_TEMPLATE_IDS.filter(id => versions[id]).map(id => `${PROMPT_TEMPLATE_LABELS[id]} ${versions[id]}`).join(' · ');
+
+interface StoredTemplates {
+  custom: PromptTemplate[];
+  active: Partial<Record<PromptTemplateId, string>>;
+  // Highest version number ever issued per template, so deleted versions are never reused
+  lastVersion: Partial<Record<PromptTemplateId, number>>;
+}
+
+const EMPTY_STORAGE: StoredTemplates = { custom: [], active: {}, lastVersion: {} };
+
+// localStorage is missing outside the browser (e.g. Node); templates then fall back to the built-ins
+const readStorage = (): StoredTemplates => {
+  if (typeof localStorage === 'undefined') return EMPTY_STORAGE;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      custom: Array.isArray(parsed?.custom) ? parsed.custom : [],
+      active: parsed?.active && typeof parsed.active === 'object' ? parsed.active : {},
+      lastVersion: parsed?.lastVersion && typeof parsed.lastVersion === 'object' ? parsed.lastVersion : {},
+    };
+  } catch (error) {
+    console.error('Stored prompt templates are corrupt, using defaults:', error);
+    return EMPTY_STORAGE;
+  }
+};
+
+const writeStorage = (stored: StoredTemplates) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+/** Built-in plus saved versions of one template, oldest first. */
+export const listTemplateVersions = (id: PromptTemplateId): PromptTemplate[] => [
+  DEFAULT_PROMPT_TEMPLATES[id],
+  ...readStorage().custom.filter(template => template.id === id),
+];
+
+export const findTemplateVersion = (id: PromptTemplateId, version: string): PromptTemplate =>
+  listTemplateVersions(id).find(template => template.version === version) ?? DEFAULT_PROMPT_TEMPLATES[id];
+
+/** Templates currently selected in the prompt lab (built-ins when nothing was chosen). */
+export const getActivePromptTemplates = (): PromptTemplateSet => {
+  const { active } = readStorage();
+  return PROMPT_TEMPLATE_IDS.reduce((set, id) => {
+    set[id] = findTemplateVersion(id, active[id] ?? BUILT_IN_VERSION);
+    return set;
+  }, {} as PromptTemplateSet);
+};
+
+export const setActiveTemplateVersion = (id: PromptTemplateId, version: string) => {
+  const stored = readStorage();
+  writeStorage({ ...stored, active: { ...stored.active, [id]: version } });
+};
+
+/** Saves an edited body as the next version (v2, v3, ...) of the template and returns it. */
+export const saveTemplateVersion = (id: PromptTemplateId, name: string, body: string): PromptTemplate => {
+  const stored = readStorage();
+  const next = (stored.lastVersion[id] ?? 1) + 1;
+  const template: PromptTemplate = { id, version: `v${next}`, name: name.trim() || `Versión ${next}`, body, builtIn: false };
+  writeStorage({ ...stored, custom: [...stored.custom, template], lastVersion: { ...stored.lastVersion, [id]: next } });
+  return template;
+};
+
+export const deleteTemplateVersion = (id: PromptTemplateId, version: string) => {
+  const stored = readStorage();
+  const active = { ...stored.active };
+  if (active[id] === version) delete active[id];
+  writeStorage({
+    ...stored,
+    custom: stored.custom.filter(template => !(template.id === id && template.version === version)),
+    active,
+  });
+};
@@ -0,0 +1,123 @@
+import { ImageInput, LightingConfig, MaterialLibraryItem, OutputFormat, PromptReferences, PromptTemplateSet, RenderErrorKind } from '../types';
+import { blobToBase64, createImageInput, extensionForMimeType } from './imageUtils';
+
+// Wire format between services/proxyRenderProvider.ts (browser) and server/proxyServer.ts (Node)
+
+export const PROXY_ROUTES = {
+  health: '/api/health',
+  detect: '/api/detect',
+  analyze: '/api/analyze',
+  refine: '/api/refine',
+  render: '/api/render',
+  edit: '/api/edit',
+  revise: '/api/revise',
+} as const;
+
+// Per-browser id used by the server for rate limiting; requests without it are limited per IP
+export const CLIENT_ID_HEADER = 'x-client-id';
+
+// Files travel as base64 inside the JSON body
+export interface EncodedImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface DetectRequest {
+  images: EncodedImage[];
+  templates: PromptTemplateSet;
+}
+
+export interface AnalyzeRequest {
+  image: EncodedImage;
+  templates: PromptTemplateSet;
+}
+
+export interface RefineRequest {
+  sceneDescription: string;
+  lighting: LightingConfig;
+  // Refinement only names the swatches, so their images stay in the browser.
+  // Assignments point into `libraryItems` so objects sharing a swatch still share it on the server.
+  references: {
+    imageCount: number;
+    libraryItems: { name: string; description: string }[];
+    materials: { objectName: string; itemIndex: number }[];
+  };
+  templates: PromptTemplateSet;
+}
+
+export const encodePromptReferences = ({ imageCount, materials }: PromptReferences): RefineRequest['references'] => {
+  const items: MaterialLibraryItem[] = [];
+  return {
+    imageCount,
+    materials: materials.map(({ objectName, item }) => {
+      if (!items.includes(item)) items.push(item);
+      return { objectName, itemIndex: items.indexOf(item) };
+    }),
+    libraryItems: items.map(({ name, description }) => ({ name, description })),
+  };
+};
+
+export const decodePromptReferences = ({ imageCount, libraryItems, materials }: RefineRequest['references']): PromptReferences => {
+  const items: MaterialLibraryItem[] = libraryItems.map(({ name, description }) => ({
+    name,
+    description,
+    tags: [],
+    image: new Blob(),
+    createdAt: 0,
+  }));
+  return {
+    imageCount,
+    materials: materials.map(({ objectName, itemIndex }) => {
+      if (!items[itemIndex]) throw new Error(`Material reference ${itemIndex} does not exist.`);
+      return { objectName, item: items[itemIndex] };
+    }),
+  };
+};
+
+export interface RenderRequest {
+  image: EncodedImage;
+  prompt: string;
+  referenceImages: EncodedImage[];
+  outputFormat: OutputFormat;
+}
+
+export interface EditRequest {
+  renderUrl: string;
+  mask: EncodedImage;
+  instruction: string;
+  outputFormat: OutputFormat;
+  templates: PromptTemplateSet;
+}
+
+export interface ReviseRequest {
+  renderUrl: string;
+  instruction: string;
+  outputFormat: OutputFormat;
+  templates: PromptTemplateSet;
+}
+
+// Successful model calls answer `{ result }`; failures answer `{ error }` with a non-2xx status
+export interface ProxyResponse<T> {
+  result: T;
+}
+
+export interface ProxyErrorBody {
+  error: { kind: RenderErrorKind; detail: string };
+}
+
+export interface ProxyHealth {
+  provider: string;
+  modelName: string;
+}
+
+export const encodeImage = async (blob: Blob): Promise<EncodedImage> => ({
+  mimeType: blob.type || 'application/octet-stream',
+  data: await blobToBase64(blob),
+});
+
+export const decodeImage = (image: EncodedImage, name: string = 'image'): ImageInput => {
+  const binary = atob(image.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return createImageInput(bytes, `${name}.${extensionForMimeType(image.mimeType)}`, image.mimeType);
+};
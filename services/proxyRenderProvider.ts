@@ -0,0 +1,91 @@
+import { RenderErrorKind, RenderProvider } from '../types';
+import { RENDER_MODEL } from './geminiService';
+import { RenderError, classifyError } from './renderErrors';
+import {
+  CLIENT_ID_HEADER,
+  PROXY_ROUTES,
+  AnalyzeRequest,
+  DetectRequest,
+  EditRequest,
+  ProxyErrorBody,
+  ProxyResponse,
+  RefineRequest,
+  RenderRequest,
+  ReviseRequest,
+  encodeImage,
+  encodePromptReferences,
+} from './proxyProtocol';
+
+const CLIENT_ID_STORAGE_KEY = 'event-render-ai.clientId';
+
+const RENDER_ERROR_KINDS: RenderErrorKind[] = ['auth', 'quota', 'safety', 'no_image', 'network', 'invalid_input', 'cancelled', 'unknown'];
+
+// Stable per browser so the server can rate-limit each designer separately
+const getClientId = (): string | null => {
+  if (typeof localStorage === 'undefined') return null;
+  let clientId = localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId);
+  }
+  return clientId;
+};
+
+// Non-JSON error pages (e.g. from a reverse proxy) are classified by status like SDK errors
+const readError = async (response: Response): Promise<RenderError> => {
+  try {
+    const { error } = await response.json() as ProxyErrorBody;
+    if (RENDER_ERROR_KINDS.includes(error.kind)) return new RenderError(error.kind, error.detail, response.status);
+  } catch {
+    // Fall through to the status-based classification
+  }
+  const status = response.status;
+  if (status === 429) return new RenderError('quota', response.statusText, status);
+  return new RenderError(status >= 500 ? 'network' : 'unknown', `HTTP ${status} ${response.statusText}`.trim(), status);
+};
+
+/**
+ * Calls the proxy in server/ instead of Gemini, so the API key stays on the server.
+ * The server already retries transient upstream failures, so calls here are made once.
+ */
+export const createProxyRenderProvider = (baseUrl: string): RenderProvider => {
+  const post = async <T>(route: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    const clientId = getClientId();
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}${route}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(clientId ? { [CLIENT_ID_HEADER]: clientId } : {}) },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      throw classifyError(error);
+    }
+    if (!response.ok) throw await readError(response);
+    return (await response.json() as ProxyResponse<T>).result;
+  };
+
+  return {
+    name: 'gemini',
+    requiresApiKey: false, // The key lives on the server
+    modelName: RENDER_MODEL,
+    detect: async (originalImages, templates, signal) =>
+      post(PROXY_ROUTES.detect, { images: await Promise.all(originalImages.map(encodeImage)), templates } satisfies DetectRequest, signal),
+    analyze: async (originalImage, templates, signal) =>
+      post(PROXY_ROUTES.analyze, { image: await encodeImage(originalImage), templates } satisfies AnalyzeRequest, signal),
+    refine: (sceneDescription, lighting, references, templates, signal) =>
+      post(PROXY_ROUTES.refine, { sceneDescription, lighting, references: encodePromptReferences(references), templates } satisfies RefineRequest, signal),
+    render: async (originalImage, prompt, referenceImages, outputFormat, signal) =>
+      post(PROXY_ROUTES.render, {
+        image: await encodeImage(originalImage),
+        prompt,
+        referenceImages: await Promise.all(referenceImages.map(encodeImage)),
+        outputFormat,
+      } satisfies RenderRequest, signal),
+    edit: async (renderUrl, mask, instruction, outputFormat, templates, signal) =>
+      post(PROXY_ROUTES.edit, { renderUrl, mask: await encodeImage(mask), instruction, outputFormat, templates } satisfies EditRequest, signal),
+    revise: (renderUrl, instruction, outputFormat, templates, signal) =>
+      post(PROXY_ROUTES.revise, { renderUrl, instruction, outputFormat, templates } satisfies ReviseRequest, signal),
+  };
+};
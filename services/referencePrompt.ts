@@ -0,0 +1,27 @@
+import { MaterialAssignment, MaterialLibraryItem, PromptReferences } from '../types';
+
+/** Each library item once (several objects can share one), in order of first assignment. */
+export const getDistinctLibraryItems = (assignments: MaterialAssignment[]): MaterialLibraryItem[] => {
+  const seen = new Set<MaterialLibraryItem>();
+  return assignments.map(({ item }) => item).filter(item => !seen.has(item) && !!seen.add(item));
+};
+
+/**
+ * The `referenceInstruction` block of the refinement prompt. Library swatches are named so the
+ * same material reads the same way in every project that uses it.
+ */
+export const buildReferenceInstruction = ({ imageCount, materials }: PromptReferences): string => {
+  const lines: string[] = [];
+  if (imageCount > 0) {
+    lines.push('REFERENCES: Use attached images for TEXTURE and MATERIAL definitions (e.g. fabric weave, flower petals). Do NOT copy the object shapes.');
+  }
+  const items = getDistinctLibraryItems(materials);
+  if (items.length > 0) {
+    lines.push(`LIBRARY MATERIALS: The last ${items.length} attached image(s) are material swatches, in this order: ${items.map(item => `"${item.name}"`).join(', ')}.`);
+    lines.push('Reproduce the exact texture, color and finish of each named swatch on its object:');
+    materials.forEach(({ objectName, item }) => {
+      lines.push(`- ${objectName} -> "${item.name}"${item.description.trim() ? `: ${item.description.trim()}` : ''}`);
+    });
+  }
+  return lines.join('\n  ');
+};
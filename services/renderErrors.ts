@@ -0,0 +1,101 @@
+import { ApiError } from '@google/genai';
+import { RenderErrorKind } from '../types';
+import { RENDER_ERROR_MESSAGES } from '../constants';
+
+// Transient failures that are worth repeating automatically
+const RETRYABLE_KINDS: RenderErrorKind[] = ['quota', 'network', 'no_image'];
+
+export const isRetryableErrorKind = (kind: RenderErrorKind): boolean => RETRYABLE_KINDS.includes(kind);
+
+/**
+ * A classified failure of a model call. `message` is the Spanish, user-facing text;
+ * the raw API message is kept in `detail` for logs.
+ */
+export class RenderError extends Error {
+  readonly kind: RenderErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly detail: string;
+
+  constructor(kind: RenderErrorKind, detail: string, status?: number) {
+    super(detail ? `${RENDER_ERROR_MESSAGES[kind]} (${detail})` : RENDER_ERROR_MESSAGES[kind]);
+    this.name = 'RenderError';
+    this.kind = kind;
+    this.retryable = isRetryableErrorKind(kind);
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+const kindFromStatus = (status: number | undefined, message: string): RenderErrorKind => {
+  // AI Studio reports a key from a project without access as "Requested entity was not found" (404)
+  if (status === 401 || status === 403 || /Requested entity was not found|API key not valid|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if ((status !== undefined && status >= 500) || /UNAVAILABLE|overloaded|DEADLINE_EXCEEDED/i.test(message)) return 'network';
+  if (status === 400 || /INVALID_ARGUMENT/i.test(message)) return 'invalid_input';
+  if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) return 'safety';
+  return 'unknown';
+};
+
+/** True for the rejection produced by an aborted fetch or AbortSignal.throwIfAborted(). */
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError' || (error instanceof RenderError && error.kind === 'cancelled');
+
+/** Maps anything thrown by the SDK, fetch or our own code to a RenderError. */
+export const classifyError = (error: unknown): RenderError => {
+  if (error instanceof RenderError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (isAbortError(error)) return new RenderError('cancelled', '');
+  if (error instanceof ApiError) return new RenderError(kindFromStatus(error.status, message), message, error.status);
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) return new RenderError('network', message);
+  return new RenderError(kindFromStatus(undefined, message), message);
+};
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  onRetry?: (error: RenderError, attempt: number, delayMs: number) => void;
+  // Stops further attempts; a pending backoff wait rejects immediately
+  signal?: AbortSignal;
+}
+
+/** Resolves after `ms`, or rejects with an AbortError as soon as `signal` fires. */
+export const abortableDelay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `call`, repeating it with exponential backoff (plus jitter) while it fails with a
+ * retryable class. Always rejects with a RenderError.
+ */
+export const withRetry = async <T>(
+  call: () => Promise<T>,
+  { maxRetries = 3, baseDelayMs = 1000, onRetry, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      return await call();
+    } catch (error) {
+      const renderError = classifyError(error);
+      if (!renderError.retryable || attempt >= maxRetries) throw renderError;
+      const delayMs = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+      onRetry?.(renderError, attempt + 1, delayMs);
+      try {
+        await abortableDelay(delayMs, signal);
+      } catch (abortError) {
+        throw classifyError(abortError);
+      }
+    }
+  }
+};
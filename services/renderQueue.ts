@@ -0,0 +1,23 @@
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight.
+ * A rejected worker is logged and does not stop the rest of the queue.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let nextIndex = 0;
+  const lane = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        console.error(`Queue worker failed for item ${index}:`, error);
+      }
+    }
+  };
+  const laneCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: laneCount }, lane));
+};
@@ -0,0 +1,113 @@
+import { ImageInput, LightingConfig, MaterialAssignment, OutputFormat, PromptTemplateSet, RenderProvider, RenderResult, RenderValidation } from '../types';
+import { geminiRenderProvider } from './geminiService';
+import { mockRenderProvider } from './mockRenderProvider';
+import { createProxyRenderProvider } from './proxyRenderProvider';
+import { getActivePromptTemplates, getTemplateVersions, fillTemplate } from './promptTemplates';
+import { getOutputFormatPromptVariables, resolveOutputFormat } from './outputFormat';
+import { classifyError, isAbortError } from './renderErrors';
+import { getMaterialReferenceFiles } from './materialLibrary';
+
+// With RENDER_PROXY_URL set, Gemini calls go through the proxy server (server/) that owns the key
+const defaultProvider: RenderProvider = process.env.RENDER_PROXY_URL
+  ? createProxyRenderProvider(process.env.RENDER_PROXY_URL)
+  : geminiRenderProvider;
+
+const providers: Record<string, RenderProvider> = {
+  [defaultProvider.name]: defaultProvider,
+  [mockRenderProvider.name]: mockRenderProvider,
+};
+
+/**
+ * Picks the render backend from RENDER_PROVIDER (see vite.config.ts).
+ * Defaults to Gemini (direct or through the proxy); unknown names fall back to it with a warning.
+ */
+export const getRenderProvider = (name: string | undefined = process.env.RENDER_PROVIDER): RenderProvider => {
+  if (!name) return defaultProvider;
+  const provider = providers[name.toLowerCase()];
+  if (!provider) {
+    console.warn(`Unknown render provider "${name}", falling back to "${defaultProvider.name}".`);
+    return defaultProvider;
+  }
+  return provider;
+};
+
+// Extra render attempts when the output fails validation (refinement is not repeated)
+const DEFAULT_MAX_VALIDATION_RETRIES = 2;
+
+export interface RenderOptions {
+  // Defaults to the versions active in the prompt lab
+  templates?: PromptTemplateSet;
+  // Checks a finished render; browser callers pass validateRender from renderValidation.ts
+  validate?: (renderUrl: string, sketchupImage: ImageInput, outputFormat: OutputFormat) => Promise<RenderValidation>;
+  maxValidationRetries?: number;
+  // Library swatches attached to scene objects; named in the prompt and sent after the reference images
+  materials?: MaterialAssignment[];
+  // Aborts refinement, rendering and validation retries; the result then has errorKind 'cancelled'
+  signal?: AbortSignal;
+}
+
+/**
+ * Main generation function.
+ * CAMBIO: "Strict Lock" ahora incluye instrucciones de calidad 8K.
+ * With a validator, renders that miss the aspect ratio or drift from the geometry are
+ * re-rendered up to maxValidationRetries times; the last attempt is returned with its validation.
+ */
+export const generateSingleRender = async (
+  provider: RenderProvider,
+  sketchupImage: ImageInput,
+  sceneDescription: string,
+  referenceImages: ImageInput[],
+  lighting: LightingConfig,
+  onProgress: (message: string) => void,
+  options: RenderOptions = {}
+): Promise<RenderResult> => {
+  const { templates = getActivePromptTemplates(), validate, maxValidationRetries = DEFAULT_MAX_VALIDATION_RETRIES, materials = [], signal } = options;
+  const templateVersions = getTemplateVersions(templates);
+  const outputFormat = resolveOutputFormat(lighting);
+  // Recorded on every result, so later downloads describe this render rather than the current settings
+  const settings = { templateVersions, lighting, outputFormat };
+
+  onProgress(`Configurando texturas PBR y geometría...`);
+
+  if (!sceneDescription.trim()) return { url: null, error: 'Falta descripción.', prompt: null, ...settings };
+
+  let combinedPrompt: string | null = null;
+  try {
+    const finalPrompt = await provider.refine(sceneDescription, lighting, { imageCount: referenceImages.length, materials }, templates, signal);
+    const renderReferences = [...referenceImages, ...getMaterialReferenceFiles(materials)];
+
+    // Prompt final reforzado con calidad 8K y realismo
+    combinedPrompt = finalPrompt + fillTemplate(templates.strictLock.body, getOutputFormatPromptVariables(outputFormat));
+
+    let attempts = 0;
+    while (true) {
+      attempts++;
+      onProgress(attempts === 1
+        ? `Renderizando escena en ${outputFormat.aspectRatio} (${outputFormat.imageSize}) con alta fidelidad...`
+        : `El render no pasó la validación, reintentando (${attempts - 1}/${maxValidationRetries})...`);
+
+      const imageUrl = await provider.render(sketchupImage, combinedPrompt, renderReferences, outputFormat, signal);
+      signal?.throwIfAborted();
+      if (!validate) return { url: imageUrl, error: null, prompt: combinedPrompt, ...settings };
+
+      onProgress(`Validando proporción y geometría...`);
+      let validation: RenderValidation | undefined;
+      try {
+        validation = await validate(imageUrl, sketchupImage, outputFormat);
+        signal?.throwIfAborted();
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // A validator failure must not discard a successful render
+        console.warn('Render validation failed:', error);
+      }
+      if (!validation || validation.passed || attempts > maxValidationRetries) {
+        return { url: imageUrl, error: null, prompt: combinedPrompt, ...settings, validation, attempts };
+      }
+      console.warn(`Render attempt ${attempts} failed validation:`, validation.issues);
+    }
+  } catch (error) {
+    if (!isAbortError(error)) console.error(error);
+    const renderError = classifyError(error);
+    return { url: null, error: renderError.message, errorKind: renderError.kind, prompt: combinedPrompt, ...settings };
+  }
+};
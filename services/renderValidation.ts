@@ -0,0 +1,139 @@
+import { ImageInput, OutputFormat, RenderValidation } from '../types';
+import { loadImage } from './imageUtils';
+
+// Accepted relative difference between returned and requested width/height ratio
+const ASPECT_RATIO_TOLERANCE = 0.03;
+// Minimum edge-overlap score before a render is flagged as geometry drift
+export const MIN_GEOMETRY_SCORE = 0.2;
+// Long side of the grid both images are reduced to before comparing edges
+const ANALYSIS_SIZE = 192;
+// Edge pixels may be off by this many grid cells and still count as matching
+const EDGE_TOLERANCE = 2;
+
+const parseRatio = (aspectRatio: string) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w / h;
+};
+
+export const toGrayscale = (image: HTMLImageElement, width: number, height: number): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('El navegador no soporta canvas 2D.');
+  // Same centre crop as the model is asked to keep, so both grids cover the same framing
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Sobel magnitude, thresholded at mean + 1 std so textured renders and flat sketches are comparable
+export const detectEdges = (gray: Float32Array, width: number, height: number): Uint8Array => {
+  const magnitude = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = (dx: number, dy: number) => gray[(y + dy) * width + (x + dx)];
+      const gx = -p(-1, -1) - 2 * p(-1, 0) - p(-1, 1) + p(1, -1) + 2 * p(1, 0) + p(1, 1);
+      const gy = -p(-1, -1) - 2 * p(0, -1) - p(1, -1) + p(-1, 1) + 2 * p(0, 1) + p(1, 1);
+      magnitude[y * width + x] = Math.hypot(gx, gy);
+    }
+  }
+  const mean = magnitude.reduce((sum, v) => sum + v, 0) / magnitude.length;
+  const std = Math.sqrt(magnitude.reduce((sum, v) => sum + (v - mean) ** 2, 0) / magnitude.length);
+  const threshold = mean + std;
+  return Uint8Array.from(magnitude, v => (v > threshold ? 1 : 0));
+};
+
+const dilate = (edges: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const result = new Uint8Array(edges.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!edges[y * width + x]) continue;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height) result[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return result;
+};
+
+// Fraction of `edges` pixels that fall on (dilated) `reference` edges
+const edgeCoverage = (edges: Uint8Array, dilatedReference: Uint8Array): number => {
+  let total = 0;
+  let hits = 0;
+  for (let i = 0; i < edges.length; i++) {
+    if (!edges[i]) continue;
+    total++;
+    if (dilatedReference[i]) hits++;
+  }
+  return total === 0 ? 0 : hits / total;
+};
+
+/**
+ * Edge-overlap F1 score between the SketchUp input and the render (0 = unrelated, 1 = identical outlines).
+ * Recall: how many input edges reappear in the render; precision: how many render edges come from the input.
+ */
+export const computeGeometryScore = (source: HTMLImageElement, render: HTMLImageElement, aspectRatio: number): number => {
+  const width = aspectRatio >= 1 ? ANALYSIS_SIZE : Math.round(ANALYSIS_SIZE * aspectRatio);
+  const height = aspectRatio >= 1 ? Math.round(ANALYSIS_SIZE / aspectRatio) : ANALYSIS_SIZE;
+  const sourceEdges = detectEdges(toGrayscale(source, width, height), width, height);
+  const renderEdges = detectEdges(toGrayscale(render, width, height), width, height);
+  const recall = edgeCoverage(sourceEdges, dilate(renderEdges, width, height, EDGE_TOLERANCE));
+  const precision = edgeCoverage(renderEdges, dilate(sourceEdges, width, height, EDGE_TOLERANCE));
+  return recall + precision === 0 ? 0 : (2 * recall * precision) / (recall + precision);
+};
+
+/**
+ * Decodes the render, checks its size against the requested aspect ratio and scores
+ * geometry drift against the SketchUp input.
+ */
+export const validateRender = async (renderUrl: string, sketchupImage: ImageInput, outputFormat: OutputFormat): Promise<RenderValidation> => {
+  const render = await loadImage(renderUrl);
+  const width = render.naturalWidth;
+  const height = render.naturalHeight;
+  const expected = parseRatio(outputFormat.aspectRatio);
+  const actual = width / height;
+  const aspectRatioOk = Math.abs(actual - expected) / expected <= ASPECT_RATIO_TOLERANCE;
+
+  let geometryScore: number | null = null;
+  const sourceUrl = URL.createObjectURL(sketchupImage);
+  try {
+    geometryScore = computeGeometryScore(await loadImage(sourceUrl), render, expected);
+  } catch (error) {
+    // e.g. a tainted canvas; the aspect ratio check still applies
+    console.warn('Geometry score could not be computed:', error);
+  } finally {
+    URL.revokeObjectURL(sourceUrl);
+  }
+  const geometryOk = geometryScore === null || geometryScore >= MIN_GEOMETRY_SCORE;
+
+  const issues: string[] = [];
+  if (!aspectRatioOk) {
+    issues.push(`El render mide ${width}×${height} (${actual.toFixed(2)}:1), no ${outputFormat.aspectRatio} como se solicitó.`);
+  }
+  if (!geometryOk && geometryScore !== null) {
+    issues.push(`Posible desviación de geometría: coincidencia de bordes ${(geometryScore * 100).toFixed(0)}% (mínimo ${MIN_GEOMETRY_SCORE * 100}%).`);
+  }
+
+  return {
+    width,
+    height,
+    expectedAspectRatio: outputFormat.aspectRatio,
+    aspectRatioOk,
+    geometryScore,
+    geometryOk,
+    passed: aspectRatioOk && geometryOk,
+    issues,
+  };
+};
@@ -0,0 +1,52 @@
+import { LightingConfig, RenderResult, RenderVersion } from '../types';
+
+let nextRenderVersionId = 0;
+
+/** New version of the chain; labels follow creation order (v1, v2, ...) regardless of branching. */
+export const createRenderVersion = (
+  versions: RenderVersion[],
+  result: RenderResult,
+  parent: RenderVersion | null,
+  instruction: string | null
+): RenderVersion => ({
+  id: `render-version-${nextRenderVersionId++}`,
+  label: `v${versions.length + 1}`,
+  parentId: parent?.id ?? null,
+  instruction,
+  createdAt: Date.now(),
+  result,
+});
+
+/** Versions from v1 down to `id`, following parent links. */
+export const getVersionLineage = (versions: RenderVersion[], id: string): RenderVersion[] => {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  const lineage: RenderVersion[] = [];
+  for (let version = byId.get(id); version; version = version.parentId ? byId.get(version.parentId) : undefined) {
+    lineage.unshift(version);
+  }
+  return lineage;
+};
+
+/**
+ * Rebuilds a saved chain (in creation order) with fresh ids, so it cannot clash with versions created
+ * later in this session. Returns the versions and the new id of `activeId`.
+ */
+export const restoreRenderVersions = (
+  saved: { id: string; parentId: string | null; instruction: string | null; createdAt: number; result: RenderResult }[],
+  activeId: string | null
+): { versions: RenderVersion[]; activeVersionId: string | null } => {
+  const newIds = new Map<string, string>();
+  const versions = saved.reduce<RenderVersion[]>((chain, entry) => {
+    const parent = entry.parentId !== null ? chain.find(version => version.id === newIds.get(entry.parentId!)) ?? null : null;
+    const version = { ...createRenderVersion(chain, entry.result, parent, entry.instruction), createdAt: entry.createdAt };
+    newIds.set(entry.id, version.id);
+    return [...chain, version];
+  }, []);
+  return { versions, activeVersionId: (activeId !== null ? newIds.get(activeId) : undefined) ?? versions.at(-1)?.id ?? null };
+};
+
+/** Lighting and format a render was made with; `fallback` covers renders saved before they were recorded. */
+export const getRenderLighting = (result: RenderResult, fallback: LightingConfig): LightingConfig => {
+  const lighting = result.lighting ?? fallback;
+  return { ...lighting, outputFormat: result.outputFormat ?? lighting.outputFormat };
+};
@@ -0,0 +1,95 @@
+import { MaterialFinish, SceneAnalysis, SceneObject } from '../types';
+import { MATERIAL_FINISH_LABELS } from '../constants';
+
+export const MATERIAL_FINISHES = Object.keys(MATERIAL_FINISH_LABELS) as MaterialFinish[];
+
+// Offered in the material dropdown next to whatever the model detected
+export const COMMON_MATERIALS: string[] = [
+  'White linen tablecloth',
+  'Ivory satin tablecloth',
+  'Black velvet tablecloth',
+  'White marble',
+  'Natural oak wood',
+  'Rustic reclaimed wood',
+  'Gold metal',
+  'Brushed silver metal',
+  'Clear glass',
+  'Mirror',
+  'Green velvet upholstery',
+  'White leather upholstery',
+  'Natural grass',
+  'Polished concrete',
+  'Exposed brick',
+  'Fresh white roses',
+  'Eucalyptus greenery',
+];
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Checks a model response or a saved analysis (already JSON-parsed) against the SceneAnalysis shape.
+ * Unknown finishes fall back to matte; objects without a name are dropped; library assignments are kept.
+ */
+export const parseSceneAnalysis = (raw: unknown): SceneAnalysis => {
+  const data = raw as Partial<Record<keyof SceneAnalysis, unknown>> | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.objects)) {
+    throw new Error('La IA devolvió un análisis de escena no válido.');
+  }
+  const camera = (data.camera ?? {}) as Record<string, unknown>;
+  const objects: SceneObject[] = data.objects
+    .map((value: unknown): SceneObject => {
+      const item = (value ?? {}) as Record<string, unknown>;
+      const { finish, libraryItemId } = item;
+      return {
+        name: asString(item.name),
+        material: asString(item.material),
+        finish: typeof finish === 'string' && MATERIAL_FINISHES.includes(finish as MaterialFinish) ? finish as MaterialFinish : 'matte',
+        ...(typeof libraryItemId === 'number' && Number.isInteger(libraryItemId) ? { libraryItemId } : {}),
+      };
+    })
+    .filter(object => object.name);
+  const guestCapacity = typeof data.guestCapacity === 'number' && data.guestCapacity > 0 ? Math.round(data.guestCapacity) : null;
+
+  return {
+    camera: { angle: asString(camera.angle), height: asString(camera.height) },
+    objects,
+    emptyRegions: Array.isArray(data.emptyRegions) ? data.emptyRegions.map(asString).filter(Boolean) : [],
+    guestCapacity,
+  };
+};
+
+/**
+ * Writes the analysis in the technical list format used for scene descriptions.
+ * Deterministic: the same analysis always produces the same text, in table order.
+ */
+export const serializeSceneAnalysis = (analysis: SceneAnalysis): string => {
+  const camera = [analysis.camera.angle, analysis.camera.height].map(part => part.trim()).filter(Boolean).join(', ');
+  const lines = [`1. CAMARA: ${camera || 'Sin especificar'}.`, '2. ZONAS VACÍAS (NO TOCAR):'];
+  const emptyRegions = analysis.emptyRegions.map(region => region.trim()).filter(Boolean);
+  lines.push(...(emptyRegions.length > 0 ? emptyRegions.map(region => `   * ${region}`) : ['   * Ninguna.']));
+  lines.push('3. GEOMETRÍA EXISTENTE:');
+  analysis.objects
+    .filter(object => object.name.trim())
+    .forEach(object => {
+      const finish = MATERIAL_FINISH_LABELS[object.finish].toLowerCase();
+      lines.push(`   * ${object.name.trim()} -> ${object.material.trim() || 'Material original'} (${finish}).`);
+    });
+  if (analysis.guestCapacity !== null) {
+    lines.push(`4. AFORO ESTIMADO: ~${analysis.guestCapacity} invitados.`);
+  }
+  return lines.join('\n');
+};
+
+// "* Mesas redondas -> White linen tablecloth (mate)." as written by serializeSceneAnalysis and the detection prompt
+const MATERIAL_LINE = /^\s*[*-]\s*(.+?)\s*->\s*(.+?)\.?\s*$/;
+
+/**
+ * Reads the "object -> material" lines of a scene description, which may have been edited as free text.
+ * Returns them as "object: material" in description order.
+ */
+export const extractMaterialList = (sceneDescription: string): string[] =>
+  sceneDescription
+    .split('\n')
+    .map(line => line.match(MATERIAL_LINE))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, object, material]) => `${object}: ${material}`);
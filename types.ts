@@ -17,6 +17,15 @@ export interface ImagePart {
   };
 }
 
+export type AspectRatio = '16:9' | '3:2' | '4:5' | '1:1' | '9:16';
+export type ImageSize = '1K' | '2K' | '4K';
+
+// Shape and target size of the generated image
+export interface OutputFormat {
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+}
+
 // New interface for saving/loading lighting configurations
 export interface LightingConfig {
   lightingType: LightingType;
@@ -24,4 +33,313 @@ export interface LightingConfig {
   colorTemperature: 'warm' | 'neutral' | 'cool' | 'golden';
   exposureCompensation: 'standard' | 'brighter' | 'darker' | 'very_bright' | 'very_dark';
   contrastEnhancement: 'natural' | 'enhanced' | 'soft' | 'high_contrast' | 'low_contrast';
-}
\ No newline at end of file
+  outputFormat?: OutputFormat; // Missing in files saved before output formats existed (16:9 then)
+}
+
+// Image handed to a RenderProvider. A browser File satisfies it; Node callers (cli/, server/) build one
+// with createImageInput from services/imageUtils.ts.
+export interface ImageInput extends Blob {
+  readonly name: string;
+}
+
+// Backend that performs the detect -> refine -> render chain.
+// The Gemini implementation lives in services/geminiService.ts, the offline one in services/mockRenderProvider.ts.
+// Every call takes an optional AbortSignal and rejects with an AbortError once it fires.
+export interface RenderProvider {
+  name: string;
+  // Whether the AI Studio API key selection flow applies to this backend.
+  requiresApiKey: boolean;
+  // Image model used by `render`, recorded with every saved render.
+  modelName: string;
+  // Returns a technical text description of the uploaded scene(s).
+  detect: (originalImages: ImageInput[], templates: PromptTemplateSet, signal?: AbortSignal) => Promise<string>;
+  // Same analysis as `detect`, returned as structured data (see services/sceneAnalysis.ts for the prompt form).
+  analyze: (originalImage: ImageInput, templates: PromptTemplateSet, signal?: AbortSignal) => Promise<SceneAnalysis>;
+  // Turns the scene description and lighting settings into the final image prompt.
+  refine: (sceneDescription: string, lighting: LightingConfig, references: PromptReferences, templates: PromptTemplateSet, signal?: AbortSignal) => Promise<string>;
+  // Produces the render and returns it as a data URL.
+  render: (originalImage: ImageInput, finalPrompt: string, referenceImages: ImageInput[], outputFormat: OutputFormat, signal?: AbortSignal) => Promise<string>;
+  // Repaints the white area of `mask` (PNG, same size as the render) following `instruction`; returns a data URL.
+  edit: (renderUrl: string, mask: Blob, instruction: string, outputFormat: OutputFormat, templates: PromptTemplateSet, signal?: AbortSignal) => Promise<string>;
+  // Re-renders a finished render with a follow-up instruction, keeping its composition; returns a data URL.
+  revise: (renderUrl: string, instruction: string, outputFormat: OutputFormat, templates: PromptTemplateSet, signal?: AbortSignal) => Promise<string>;
+}
+
+// Checks run on a render after it comes back from the model
+export interface RenderValidation {
+  width: number;
+  height: number;
+  expectedAspectRatio: AspectRatio;
+  aspectRatioOk: boolean;
+  // Edge overlap with the SketchUp input (0-1); null when it could not be computed
+  geometryScore: number | null;
+  geometryOk: boolean;
+  passed: boolean;
+  issues: string[]; // Spanish, user-facing
+}
+
+export type MaterialFinish = 'matte' | 'satin' | 'glossy' | 'metallic' | 'textured' | 'transparent';
+
+// One detected object and the material it should be rendered with
+export interface SceneObject {
+  name: string; // e.g. "Round tables"
+  material: string; // e.g. "White linen tablecloth"
+  finish: MaterialFinish;
+  libraryItemId?: number; // Material library swatch assigned to this object; `material` then holds its name
+}
+
+// Structured result of scene detection; serialized into the refinement prompt
+export interface SceneAnalysis {
+  camera: {
+    angle: string; // e.g. "Wide shot, frontal"
+    height: string; // e.g. "Eye level"
+  };
+  objects: SceneObject[];
+  emptyRegions: string[]; // Areas that must stay empty, e.g. "Right foreground: empty grass"
+  guestCapacity: number | null; // Estimated seated guests, when tables/chairs are visible
+}
+
+// A reusable material/décor swatch stored in the local library (IndexedDB)
+export interface MaterialLibraryItem {
+  id?: number; // Assigned by IndexedDB
+  name: string; // Referenced by name in the prompt, e.g. "Ivory Chiavari cushion"
+  description: string;
+  tags: string[];
+  image: Blob;
+  createdAt: number;
+}
+
+// A library swatch attached to one object of the scene
+export interface MaterialAssignment {
+  objectName: string;
+  item: MaterialLibraryItem;
+}
+
+// Images that accompany the scene in the render call, as described to the refinement step
+export interface PromptReferences {
+  imageCount: number; // Ad-hoc reference uploads
+  materials: MaterialAssignment[]; // Library swatches, sent after the ad-hoc references
+}
+
+// Failure classes for model calls; see services/renderErrors.ts
+export type RenderErrorKind = 'auth' | 'quota' | 'safety' | 'no_image' | 'network' | 'invalid_input' | 'cancelled' | 'unknown';
+
+// Outcome of one detect -> refine -> render run
+export interface RenderResult {
+  url: string | null;
+  error: string | null;
+  errorKind?: RenderErrorKind; // Set together with `error`
+  prompt: string | null; // Final prompt sent to the image model, when refinement succeeded
+  templateVersions?: PromptTemplateVersions; // Prompt template versions used for this render
+  lighting?: LightingConfig; // Settings the render was made with, which the editor may have changed since
+  outputFormat?: OutputFormat; // Format actually requested from the model
+  validation?: RenderValidation; // Result of the last validation, when a validator was used
+  attempts?: number; // Render calls made, including validation retries
+}
+
+// One step of the refinement chain of a render (v1 = the original render)
+export interface RenderVersion {
+  id: string;
+  label: string; // v1, v2, ... in creation order
+  parentId: string | null; // Version it was derived from; null for v1
+  instruction: string | null; // Follow-up or region-edit instruction; null for v1
+  createdAt: number;
+  result: RenderResult;
+}
+
+export type BatchItemStatus = 'pending' | 'detecting' | 'ready' | 'rendering' | 'done' | 'error';
+
+// One SketchUp view inside a batch job
+export interface BatchItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  description: string;
+  status: BatchItemStatus;
+  progress: string;
+  renderUrl: string | null;
+  error: string | null;
+  validation: RenderValidation | null;
+  renderMetadata: RenderFileMetadata | null; // How renderUrl was made; embedded when it is downloaded
+}
+
+// A render persisted in the local history (IndexedDB)
+export interface RenderHistoryEntry {
+  id?: number; // Assigned by IndexedDB
+  createdAt: number;
+  sceneName: string;
+  sketchupImage: Blob;
+  sceneDescription: string;
+  refinedPrompt: string;
+  lighting: LightingConfig;
+  referenceThumbnails: string[]; // JPEG data URLs
+  renderUrl: string; // Data URL of the render
+  modelName: string;
+  templateVersions?: PromptTemplateVersions; // Missing on entries saved before prompt templates existed
+  sceneAnalysis?: SceneAnalysis | null; // Structured detection with material assignments; missing on older entries
+}
+
+// Current version of the project archive manifest (project.json)
+export const PROJECT_FORMAT = 'event-render-project';
+export const PROJECT_VERSION = 2;
+
+// One render version as saved in a project; parents point at other ids of the same project
+export interface ProjectRenderInfo {
+  id: string;
+  parentId: string | null;
+  instruction: string | null;
+  prompt: string;
+  modelName: string;
+  createdAt: string; // ISO timestamp of the render, not of the export
+  templateVersions?: PromptTemplateVersions;
+  lighting?: LightingConfig; // Includes the output format the render was made with
+}
+
+// project.json inside an exported .zip project archive. Image paths are relative to the archive root.
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  createdAt: string; // ISO timestamp
+  scene: { name: string; path: string } | null;
+  sceneDescription: string;
+  sceneAnalysis: SceneAnalysis | null;
+  lighting: LightingConfig;
+  referenceImages: { name: string; path: string }[];
+  renders: (ProjectRenderInfo & { path: string })[]; // In creation order
+  activeRenderId: string | null;
+}
+
+// A full editor session, as exported to / imported from a project archive
+export interface ProjectSession {
+  sceneImage: File | null;
+  sceneDescription: string;
+  sceneAnalysis: SceneAnalysis | null;
+  lighting: LightingConfig;
+  referenceImages: File[];
+  renders: (ProjectRenderInfo & { url: string })[]; // In creation order
+  activeRenderId: string | null;
+}
+
+// Prompts used by every first render
+export type PipelineTemplateId = 'detection' | 'refinement' | 'lighting' | 'strictLock';
+
+// Prompts used only by edits of an existing render
+export type FollowUpTemplateId = 'edit' | 'revise';
+
+// Prompts that can be edited and versioned from the prompt lab
+export type PromptTemplateId = PipelineTemplateId | FollowUpTemplateId;
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: string; // e.g. "v1"; built-in templates are always "v1"
+  name: string;
+  body: string; // Text with {{variable}} placeholders
+  builtIn: boolean;
+}
+
+export type PromptTemplateSet = Record<PromptTemplateId, PromptTemplate>;
+
+// Which version of each template produced a render; follow-up templates only appear on the versions they made
+export type PromptTemplateVersions = Record<PipelineTemplateId, string> & Partial<Record<FollowUpTemplateId, string>>;
+
+// Client and event details printed on the presentation PDF
+export interface PresentationMetadata {
+  clientName: string;
+  eventDate: string; // YYYY-MM-DD, as returned by the date input
+  venue: string;
+}
+
+// Studio branding reused across presentations (kept in localStorage)
+export interface PresentationBranding {
+  companyName: string;
+  logoUrl: string | null; // PNG or JPEG data URL
+}
+
+// One render page of the presentation
+export interface PresentationSlide {
+  title: string;
+  renderUrl: string;
+  sketchupImage: Blob;
+  lighting: LightingConfig;
+  sceneDescription: string;
+}
+
+// File formats offered when downloading a render
+export type ImageFileFormat = 'png' | 'jpeg' | 'webp';
+
+// Last choices of the download dialog (kept in localStorage)
+export interface DownloadSettings {
+  format: ImageFileFormat;
+  quality: number; // 0-1, ignored for PNG
+  filenameTemplate: string; // {{project}}, {{view}}, {{lighting}}, {{version}} and {{timestamp}} placeholders
+  projectName: string;
+}
+
+// How a render was made, embedded in downloaded files (PNG text chunks, XMP)
+export interface RenderFileMetadata {
+  prompt: string;
+  modelName: string;
+  lighting: LightingConfig;
+  createdAt: string; // ISO timestamp
+}
+
+// Color adjustments applied after rendering; each mirrors one LightingConfig option
+export interface ColorGrading {
+  exposure: number; // Stops, -2 to 2
+  temperature: number; // White balance, -1 (cooler) to 1 (warmer)
+  contrast: number; // Curve strength, -1 (flatter) to 1 (stronger S-curve)
+}
+
+// Client-side post-processing for print output
+export interface PostProcessSettings {
+  upscaleFactor: 1 | 2 | 4;
+  sharpenAmount: number; // Unsharp mask strength, 0 to 2
+  grading: ColorGrading;
+}
+
+export type PostProcessStage = 'grading' | 'upscale' | 'sharpen' | 'encode';
+
+// Named lighting setup offered in the preset gallery
+export interface LightingPreset {
+  id: string;
+  name: string;
+  config: LightingConfig;
+  thumbnail: string | null; // JPEG data URL taken from a render
+  builtIn: boolean;
+  createdAt: number;
+}
+
+// Current version of the preset pack file (.json)
+export const LIGHTING_PRESET_PACK_FORMAT = 'event-render-lighting-presets';
+export const LIGHTING_PRESET_PACK_VERSION = 1;
+
+// Shareable file with one or more presets
+export interface LightingPresetPack {
+  format: typeof LIGHTING_PRESET_PACK_FORMAT;
+  version: number;
+  presets: { name: string; config: LightingConfig; thumbnail: string | null }[];
+}
+
+// Rectangle in pixels of an image
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+// Per-image edits of the upload preprocessing; the crop is in pixels of the rotated image
+export interface InputImageEdits {
+  rotation: ImageRotation;
+  crop: PixelRect | null;
+}
+
+// Last choices of the upload preprocessing (kept in localStorage)
+export interface InputPreprocessSettings {
+  maxSize: number; // Longest side in pixels; larger uploads are downscaled
+  format: Extract<ImageFileFormat, 'png' | 'jpeg'>;
+  quality: number; // 0-1, ignored for PNG
+  autoTrim: boolean; // Trim solid UI borders (window chrome, toolbars) when an image is loaded
+}
@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Behind the proxy (server/) the key stays on the server and is left out of the bundle
+    const clientApiKey = env.RENDER_PROXY_URL ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,10 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientApiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientApiKey),
+        'process.env.RENDER_PROVIDER': JSON.stringify(env.RENDER_PROVIDER),
+        'process.env.RENDER_PROXY_URL': JSON.stringify(env.RENDER_PROXY_URL)
       },
       resolve: {
         alias: {